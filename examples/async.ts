@@ -0,0 +1,64 @@
+/**
+ * Async Example
+ *
+ * This example demonstrates non-blocking reading with LSM6DSRAsync:
+ * - Read the sensor at 50 Hz without blocking the event loop
+ * - Keep a timer running alongside to show the loop stays responsive
+ */
+
+import {
+  LSM6DSRAsync,
+  AccelODR,
+  GyroODR,
+} from '../src';
+
+async function main() {
+  console.log('LSM6DSR Async Example');
+  console.log('=====================\n');
+
+  const sensor = new LSM6DSRAsync({
+    accelODR: AccelODR.Hz_104,
+    gyroODR: GyroODR.Hz_104,
+  });
+
+  let ticks = 0;
+  const ticker = setInterval(() => ticks++, 1);
+
+  try {
+    await sensor.begin();
+    await sensor.enableAccel();
+    await sensor.enableGyro();
+
+    console.log('Reading for 5 seconds...\n');
+
+    let samples = 0;
+    const endTime = Date.now() + 5000;
+
+    while (Date.now() < endTime) {
+      const data = await sensor.readIMU();
+      samples++;
+
+      if (samples % 50 === 0) {
+        console.log(
+          `Accel: X=${data.accel.x.toFixed(1)} Y=${data.accel.y.toFixed(1)} Z=${data.accel.z.toFixed(1)} mg | ` +
+          `Gyro: X=${data.gyro.x.toFixed(1)} Y=${data.gyro.y.toFixed(1)} Z=${data.gyro.z.toFixed(1)} mdps`
+        );
+      }
+
+      await sleep(20);
+    }
+
+    console.log(`\nSamples: ${samples}, timer ticks meanwhile: ${ticks}`);
+  } catch (error) {
+    console.error('Error:', error);
+  } finally {
+    clearInterval(ticker);
+    await sensor.close();
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+main();
@@ -0,0 +1,83 @@
+/**
+ * FIFO Example
+ *
+ * This example demonstrates batched reading through the FIFO:
+ * - Batch accelerometer and gyroscope samples at 833 Hz
+ * - Drain the FIFO whenever the watermark is reached
+ * - Count samples to verify no data is lost
+ */
+
+import {
+  LSM6DSR,
+  AccelODR,
+  GyroODR,
+  FIFOMode,
+  FIFOAccelBDR,
+  FIFOGyroBDR,
+} from '../src';
+
+const WATERMARK = 128;
+
+async function main() {
+  console.log('LSM6DSR FIFO Example');
+  console.log('====================\n');
+
+  const sensor = new LSM6DSR({
+    accelODR: AccelODR.Hz_833,
+    gyroODR: GyroODR.Hz_833,
+  });
+
+  let accelCount = 0;
+  let gyroCount = 0;
+  const startTime = Date.now();
+
+  try {
+    sensor.begin();
+
+    sensor.configureFIFO({
+      accelBatchRate: FIFOAccelBDR.Hz_833,
+      gyroBatchRate: FIFOGyroBDR.Hz_833,
+      watermark: WATERMARK,
+      mode: FIFOMode.STREAM,
+    });
+
+    sensor.enableAccel();
+    sensor.enableGyro();
+
+    console.log('Collecting data for 5 seconds...\n');
+
+    while (Date.now() - startTime < 5000) {
+      const status = sensor.getFIFOStatus();
+
+      if (status.overrun) {
+        console.warn('FIFO overrun, samples were lost');
+      }
+
+      if (status.watermarkReached) {
+        for (const sample of sensor.readFIFO()) {
+          if (sample.sensor === 'accel') accelCount++;
+          if (sample.sensor === 'gyro') gyroCount++;
+        }
+      }
+
+      await sleep(20);
+    }
+
+    sensor.setFIFOMode(FIFOMode.BYPASS);
+
+    const duration = (Date.now() - startTime) / 1000;
+    console.log('Statistics:');
+    console.log(`  Accel samples: ${accelCount} (${(accelCount / duration).toFixed(1)} Hz)`);
+    console.log(`  Gyro samples:  ${gyroCount} (${(gyroCount / duration).toFixed(1)} Hz)`);
+  } catch (error) {
+    console.error('Error:', error);
+  } finally {
+    sensor.close();
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+main();
@@ -0,0 +1,73 @@
+/**
+ * Stream Example
+ *
+ * This example demonstrates continuous sample streams:
+ * - Iterate samples with for await, paced by the sensor data-ready flags
+ * - Pipe FIFO-paced samples through a Readable stream as JSON lines
+ */
+
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import {
+  LSM6DSR,
+  AccelODR,
+  GyroODR,
+  FIFOMode,
+  FIFOAccelBDR,
+  FIFOGyroBDR,
+} from '../src';
+
+async function main() {
+  console.log('LSM6DSR Stream Example');
+  console.log('======================\n');
+
+  const sensor = new LSM6DSR({
+    accelODR: AccelODR.Hz_104,
+    gyroODR: GyroODR.Hz_104,
+  });
+
+  try {
+    sensor.begin();
+    sensor.enableAccel();
+    sensor.enableGyro();
+
+    // Async iterator: 100 samples at 104 Hz
+    let count = 0;
+    for await (const sample of sensor.stream({ includeTemp: true })) {
+      if (++count % 25 === 0) {
+        console.log(
+          `Accel Z=${sample.accel.z.toFixed(1)} mg | Gyro Z=${sample.gyro.z.toFixed(1)} mdps | ` +
+          `Temp ${sample.temperature?.toFixed(1)} °C`
+        );
+      }
+      if (count === 100) break;
+    }
+
+    // Readable: FIFO-paced samples for 2 seconds
+    sensor.configureFIFO({
+      accelBatchRate: FIFOAccelBDR.Hz_104,
+      gyroBatchRate: FIFOGyroBDR.Hz_104,
+      mode: FIFOMode.STREAM,
+    });
+
+    const toJSONLines = new Transform({
+      writableObjectMode: true,
+      transform(sample, _encoding, callback) {
+        callback(null, JSON.stringify(sample) + '\n');
+      },
+    });
+
+    console.log('\nStreaming FIFO samples for 2 seconds...\n');
+    await pipeline(
+      sensor.createReadStream({ source: 'fifo', signal: AbortSignal.timeout(2000) }),
+      toJSONLines,
+      process.stdout
+    );
+  } catch (error) {
+    console.error('Error:', error);
+  } finally {
+    sensor.close();
+  }
+}
+
+main();
@@ -0,0 +1,172 @@
+/**
+ * Six-position accelerometer calibration
+ *
+ * The sensor is held still with each axis pointing up and down in turn. The
+ * averaged readings are fitted by least squares to the ideal ±1 g vectors,
+ * giving a correction that covers offset, per-axis scale and cross-axis
+ * misalignment:
+ *
+ * ```
+ * corrected = matrix · (reading - bias)
+ * ```
+ *
+ * The fit works in the sensor frame; on a rotated mounting each position
+ * carries the gravity vector it expects in that frame.
+ */
+
+import { Vector3D, Matrix3, Orientation, AccelCalibration, AccelCalibrationPosition } from './types';
+
+// Positions visited by the guided workflow, in order
+export const SIX_POSITION_ORDER: Orientation[] = ['Z_UP', 'Z_DOWN', 'X_UP', 'X_DOWN', 'Y_UP', 'Y_DOWN'];
+
+/**
+ * Expected reading in g for a device lying with the given axis up
+ */
+export function gravityVector(orientation: Orientation): Vector3D {
+  const vector: Vector3D = { x: 0, y: 0, z: 0 };
+  const axis = orientation[0].toLowerCase() as keyof Vector3D;
+  vector[axis] = orientation.endsWith('_UP') ? 1 : -1;
+  return vector;
+}
+
+/**
+ * Solve the correction matrix and bias from averaged readings (g)
+ * At least one reading per axis direction is required; extra readings are fitted too
+ */
+export function solveAccelCalibration(positions: AccelCalibrationPosition[]): AccelCalibration {
+  const missing = SIX_POSITION_ORDER.filter((o) => !positions.some((p) => p.orientation === o));
+  if (missing.length > 0) {
+    throw new Error(`Accelerometer calibration is missing positions: ${missing.join(', ')}`);
+  }
+
+  // target = A · reading + c, solved per output axis with normal equations
+  const normal: number[][] = Array.from({ length: 4 }, () => [0, 0, 0, 0]);
+  const rhs: number[][] = Array.from({ length: 4 }, () => [0, 0, 0]);
+  for (const { orientation, mean, expected } of positions) {
+    const row = [mean.x, mean.y, mean.z, 1];
+    const target = expected ?? gravityVector(orientation);
+    const targetRow = [target.x, target.y, target.z];
+    for (let i = 0; i < 4; i++) {
+      for (let j = 0; j < 4; j++) normal[i][j] += row[i] * row[j];
+      for (let k = 0; k < 3; k++) rhs[i][k] += row[i] * targetRow[k];
+    }
+  }
+  const solution = solveLinear(normal, rhs);
+
+  const matrix: Matrix3 = [
+    [solution[0][0], solution[1][0], solution[2][0]],
+    [solution[0][1], solution[1][1], solution[2][1]],
+    [solution[0][2], solution[1][2], solution[2][2]],
+  ];
+  const constant = { x: solution[3][0], y: solution[3][1], z: solution[3][2] };
+
+  // Rewrite A · r + c as A · (r - bias)
+  const bias = multiply(invert(matrix), constant);
+  const calibration: AccelCalibration = {
+    matrix,
+    bias: { x: -bias.x, y: -bias.y, z: -bias.z },
+  };
+
+  let sumSquares = 0;
+  let max = 0;
+  for (const { orientation, mean, expected } of positions) {
+    const corrected = applyAccelCalibration(calibration, mean);
+    const target = expected ?? gravityVector(orientation);
+    const error = Math.hypot(corrected.x - target.x, corrected.y - target.y, corrected.z - target.z);
+    sumSquares += error * error;
+    max = Math.max(max, error);
+  }
+  calibration.residual = { rms: Math.sqrt(sumSquares / positions.length), max };
+
+  return calibration;
+}
+
+/**
+ * Apply a calibration to a reading
+ * @param scale - Unit of the reading relative to g (1000 for mg)
+ */
+export function applyAccelCalibration(calibration: AccelCalibration, reading: Vector3D, scale: number = 1): Vector3D {
+  const { bias } = calibration;
+  return multiply(calibration.matrix, {
+    x: reading.x - bias.x * scale,
+    y: reading.y - bias.y * scale,
+    z: reading.z - bias.z * scale,
+  });
+}
+
+/**
+ * Parse and validate a calibration exported with JSON.stringify()
+ */
+export function parseAccelCalibration(json: string): AccelCalibration {
+  const value = JSON.parse(json);
+  const isNumber = (n: unknown) => typeof n === 'number' && Number.isFinite(n);
+  const isVector = (v: unknown) =>
+    typeof v === 'object' && v !== null && 'x' in v && 'y' in v && 'z' in v && isNumber(v.x) && isNumber(v.y) && isNumber(v.z);
+
+  if (
+    !value ||
+    !Array.isArray(value.matrix) ||
+    value.matrix.length !== 3 ||
+    !value.matrix.every((row: unknown) => Array.isArray(row) && row.length === 3 && row.every(isNumber)) ||
+    !isVector(value.bias)
+  ) {
+    throw new Error('Invalid accelerometer calibration: expected { matrix: number[3][3], bias: { x, y, z } }');
+  }
+
+  const calibration: AccelCalibration = {
+    matrix: value.matrix.map((row: number[]) => [...row]) as Matrix3,
+    bias: { x: value.bias.x, y: value.bias.y, z: value.bias.z },
+  };
+  if (value.residual && isNumber(value.residual.rms) && isNumber(value.residual.max)) {
+    calibration.residual = { rms: value.residual.rms, max: value.residual.max };
+  }
+  return calibration;
+}
+
+function multiply(matrix: Matrix3, v: Vector3D): Vector3D {
+  return {
+    x: matrix[0][0] * v.x + matrix[0][1] * v.y + matrix[0][2] * v.z,
+    y: matrix[1][0] * v.x + matrix[1][1] * v.y + matrix[1][2] * v.z,
+    z: matrix[2][0] * v.x + matrix[2][1] * v.y + matrix[2][2] * v.z,
+  };
+}
+
+function invert(m: Matrix3): Matrix3 {
+  const [[a, b, c], [d, e, f], [g, h, i]] = m;
+  const det = a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g);
+  if (Math.abs(det) < 1e-12) {
+    throw new Error('Accelerometer calibration is singular, check the collected positions');
+  }
+  return [
+    [(e * i - f * h) / det, (c * h - b * i) / det, (b * f - c * e) / det],
+    [(f * g - d * i) / det, (a * i - c * g) / det, (c * d - a * f) / det],
+    [(d * h - e * g) / det, (b * g - a * h) / det, (a * e - b * d) / det],
+  ];
+}
+
+/**
+ * Solve A · X = B by Gauss-Jordan elimination with partial pivoting
+ */
+function solveLinear(a: number[][], b: number[][]): number[][] {
+  const n = a.length;
+  const m = a.map((row, i) => [...row, ...b[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) {
+      throw new Error('Accelerometer calibration is singular, check the collected positions');
+    }
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    for (let row = 0; row < n; row++) {
+      if (row === col) continue;
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k < m[row].length; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+
+  return m.map((row, i) => row.slice(n).map((v) => v / m[i][i]));
+}
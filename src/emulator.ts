@@ -0,0 +1,941 @@
+/**
+ * Behavioral LSM6DSR emulator
+ *
+ * Implements the register interface on top of a model of the chip instead of
+ * a plain register map, so the real driver logic can run without hardware:
+ * - Reset values, self-clearing SW_RESET and BOOT, IF_INC and BDU
+ * - Output registers and STATUS_REG updated at the configured ODR from a motion profile
+ * - User offset and self-test deflection applied to the accelerometer/gyroscope output
+ * - FIFO batching with tags, tag counter, watermark, full and overrun flags
+ * - Free-fall, wake-up and 6D detection, injected taps, latched or pulsed sources
+ * - INT1/INT2 levels driven on connected MockGPIO lines
+ * - Timestamp counter trimmed by INTERNAL_FREQ_FINE
+ *
+ * Time is evaluated lazily on each bus access. Embedded functions (pedometer,
+ * FSM, ...) and the sensor hub are not modelled; their register pages behave
+ * as memory.
+ */
+
+import { performance } from 'perf_hooks';
+import {
+  Registers,
+  EmbeddedRegisters,
+  LSM6DSR_ID,
+  AccelFullScale,
+  GyroFullScale,
+  FIFOMode,
+  FIFOTag,
+  FIFO_MAX_SAMPLES,
+  FreeFallThreshold,
+  InterruptPin,
+  AccelOffsetWeight,
+  AccelSensitivity,
+  GyroSensitivity,
+  AccelODRHz,
+  GyroODRHz,
+  AccelFSValue,
+  FreeFallThresholdMg,
+  AccelOffsetWeightMg,
+  TIMESTAMP_RESOLUTION_US,
+} from './registers';
+import { RegisterInterface, Vector3D, Axis, MotionProfile, MotionSample, EmulatorOptions } from './types';
+import { TIMESTAMP_RANGE, FUNC_CFG_EMBEDDED, FUNC_CFG_SENSOR_HUB, clamp } from './helpers';
+import { MockGPIO } from './gpio';
+
+// Main page registers with a non-zero reset value
+const MAIN_RESET_VALUES: [number, number][] = [
+  [Registers.PIN_CTRL, 0x3f],
+  [Registers.WHO_AM_I, LSM6DSR_ID],
+  [Registers.CTRL3_C, 0x04], // IF_INC
+  [Registers.CTRL9_XL, 0xe0], // DEN_X, DEN_Y, DEN_Z
+];
+
+// Embedded functions page registers with a non-zero reset value
+const EMBEDDED_RESET_VALUES: [number, number][] = [
+  [EmbeddedRegisters.PAGE_SEL, 0x01],
+  [EmbeddedRegisters.EMB_FUNC_ODR_CFG_B, 0x4b],
+];
+
+// Main page registers the host cannot write
+const READ_ONLY = new Set<number>([
+  Registers.WHO_AM_I,
+  Registers.ALL_INT_SRC,
+  Registers.WAKE_UP_SRC,
+  Registers.TAP_SRC,
+  Registers.D6D_SRC,
+  Registers.STATUS_REG,
+  Registers.EMB_FUNC_STATUS_MAINPAGE,
+  Registers.FSM_STATUS_A_MAINPAGE,
+  Registers.FSM_STATUS_B_MAINPAGE,
+  Registers.STATUS_MASTER_MAINPAGE,
+  Registers.FIFO_STATUS1,
+  Registers.FIFO_STATUS2,
+  Registers.TIMESTAMP0,
+  Registers.TIMESTAMP1,
+  Registers.TIMESTAMP3,
+  Registers.INTERNAL_FREQ_FINE,
+]);
+
+// Output register groups: first address, length and STATUS_REG data-ready flag
+const OUTPUT_GROUPS = [
+  { address: Registers.OUT_TEMP_L, length: 2, flag: 0x04 },
+  { address: Registers.OUTX_L_G, length: 6, flag: 0x02 },
+  { address: Registers.OUTX_L_A, length: 6, flag: 0x01 },
+];
+type OutputGroup = typeof OUTPUT_GROUPS[number];
+
+// Temperature output data rate while any sensor is active
+const TEMPERATURE_ODR = 52;
+
+// FIFO temperature batch rates (FIFO_CTRL4 ODR_T_BATCH)
+const TEMP_BDR_HZ = [0, 1.6, 12.5, 52];
+
+// Timestamp batching decimation (FIFO_CTRL4 DEC_TS_BATCH)
+const TIMESTAMP_DECIMATION = [0, 1, 8, 32];
+
+// Self-test output change, within the datasheet limits
+const ACCEL_SELF_TEST_MG = 500;
+const GYRO_SELF_TEST_MDPS = 300000;
+
+// Time the BOOT bit stays set while trimming values are reloaded
+const BOOT_TIME_MS = 10;
+
+// Samples generated per bus access at most; older ones are skipped as if nobody was reading
+const MAX_CATCH_UP_SAMPLES = 2 * FIFO_MAX_SAMPLES;
+
+const REST_ACCEL: Vector3D = { x: 0, y: 0, z: 1000 };
+const ZERO: Vector3D = { x: 0, y: 0, z: 0 };
+
+// Periodic sample source: sample n is taken at n / rate seconds, so channels
+// with related rates share sample instants like on the chip
+interface Channel {
+  rate: number; // Hz, 0 when off
+  index: number; // next sample
+  count: number; // samples taken since the channel started
+}
+
+export class LSM6DSREmulator implements RegisterInterface {
+  private main = new Uint8Array(0x80);
+  private embedded = new Uint8Array(0x80);
+  private sensorHub = new Uint8Array(0x80);
+  private advancedPages: Map<number, number> = new Map();
+
+  private realTime: boolean;
+  private startTime = performance.now();
+  private offset = 0;
+  private freqFine: number;
+  private profile: MotionProfile = { type: 'constant' };
+  private profileStart = 0;
+
+  private accel: Channel = { rate: 0, index: 0, count: 0 };
+  private gyro: Channel = { rate: 0, index: 0, count: 0 };
+  private temperature: Channel = { rate: 0, index: 0, count: 0 };
+
+  private status = 0;
+  private frozen: Set<OutputGroup> = new Set();
+  private pending: Map<OutputGroup, Buffer> = new Map();
+
+  private fifo: Buffer[] = [];
+  private fifoOverrun = false;
+  private fifoOverrunLatched = false;
+  private lastBatchTime = -1;
+  private batchSlots = 0;
+
+  private timestampBase = 0;
+  private timestampStart = 0;
+  private timestampRunning = false;
+  private bootUntil = -1;
+
+  private previousAccel: Vector3D | null = null;
+  private freeFallSamples = 0;
+
+  private lines: Map<InterruptPin, MockGPIO> = new Map();
+  private depth = 0;
+
+  constructor(options: EmulatorOptions = {}) {
+    this.realTime = options.realTime ?? true;
+    this.freqFine = clamp(Math.round(options.freqFine ?? 0), -128, 127);
+    this.applyReset();
+    for (const [register, value] of EMBEDDED_RESET_VALUES) {
+      this.embedded[register] = value;
+    }
+    if (options.profile) this.setMotionProfile(options.profile);
+  }
+
+  // ==================== Register Interface ====================
+
+  readByte(register: number): number {
+    return this.readBlock(register, 1)[0];
+  }
+
+  readWord(register: number): number {
+    return this.readBlock(register, 2).readUInt16LE(0);
+  }
+
+  readBlock(register: number, length: number): Buffer {
+    return this.transaction(() => {
+      const buffer = Buffer.alloc(length);
+      const autoIncrement = (this.main[Registers.CTRL3_C] & 0x04) !== 0;
+      for (let i = 0; i < length; i++) {
+        buffer[i] = this.readRegister(autoIncrement ? (register + i) & 0x7f : register);
+      }
+      return buffer;
+    });
+  }
+
+  writeByte(register: number, value: number): void {
+    this.writeBlock(register, Buffer.from([value & 0xff]));
+  }
+
+  writeWord(register: number, value: number): void {
+    this.writeBlock(register, Buffer.from([value & 0xff, (value >> 8) & 0xff]));
+  }
+
+  writeBlock(register: number, buffer: Buffer): void {
+    this.transaction(() => {
+      const autoIncrement = (this.main[Registers.CTRL3_C] & 0x04) !== 0;
+      for (let i = 0; i < buffer.length; i++) {
+        this.writeRegister(autoIncrement ? (register + i) & 0x7f : register, buffer[i]);
+      }
+    });
+  }
+
+  close(): void {
+    this.lines.clear();
+  }
+
+  // ==================== Test Helpers ====================
+
+  /**
+   * Replace the motion the sensor is subjected to; profile time restarts at zero
+   */
+  setMotionProfile(profile: MotionProfile): void {
+    if (profile.type === 'trace') {
+      if (profile.points.length === 0) {
+        throw new Error('Motion trace needs at least one point');
+      }
+      for (let i = 1; i < profile.points.length; i++) {
+        if (profile.points[i].time < profile.points[i - 1].time) {
+          throw new Error('Motion trace points must be sorted by time');
+        }
+      }
+    }
+    this.transaction(() => {
+      this.profile = profile;
+      this.profileStart = this.now();
+    });
+  }
+
+  /**
+   * Move emulator time forward, generating the samples and events of that period
+   * Time steps from sample to sample so connected interrupt lines see every
+   * pulse. With realTime enabled this skips ahead of the wall clock.
+   */
+  advance(ms: number): void {
+    const target = this.offset + ms;
+    for (;;) {
+      const base = this.now() - this.offset;
+      const next = Math.min(nextSampleTime(this.accel), nextSampleTime(this.gyro), nextSampleTime(this.temperature));
+      if (next - base > target) break;
+      this.transaction(() => {
+        this.offset = Math.max(this.offset, next - base);
+        this.update();
+      });
+    }
+    this.transaction(() => {
+      this.offset = Math.max(this.offset, target);
+      this.update();
+    });
+  }
+
+  /**
+   * Emulator time in ms since construction
+   */
+  getTime(): number {
+    return this.now();
+  }
+
+  /**
+   * Report a tap as if the tap recognition had detected it
+   * Taps are only reported on axes enabled in TAP_CFG0 while INTERRUPTS_ENABLE is set,
+   * and double taps only in single/double tap mode
+   * @returns true if the tap was detected
+   */
+  triggerTap(axis: Axis, sign: 1 | -1 = 1, double: boolean = false): boolean {
+    return this.transaction(() => {
+      const axisEnable = { x: 0x08, y: 0x04, z: 0x02 }[axis];
+      const doubleTapEnabled = (this.main[Registers.WAKE_UP_THS] & 0x80) !== 0;
+      if (!this.interruptsEnabled() || (this.main[Registers.TAP_CFG0] & axisEnable) === 0 || (double && !doubleTapEnabled)) {
+        return false;
+      }
+      // TAP_SRC: TAP_IA[6], SINGLE_TAP[5], DOUBLE_TAP[4], TAP_SIGN[3], X_TAP[2], Y_TAP[1], Z_TAP[0]
+      const axisBit = { x: 0x04, y: 0x02, z: 0x01 }[axis];
+      this.main[Registers.TAP_SRC] = 0x40 | (double ? 0x10 : 0x20) | (sign < 0 ? 0x08 : 0) | axisBit;
+      this.main[Registers.ALL_INT_SRC] |= double ? 0x08 : 0x04;
+      return true;
+    });
+  }
+
+  /**
+   * Drive a MockGPIO line with the level of an interrupt pin
+   */
+  connectInterrupt(pin: InterruptPin, gpio: MockGPIO): void {
+    this.lines.set(pin, gpio);
+    this.refreshInterruptLines();
+  }
+
+  disconnectInterrupt(pin: InterruptPin): void {
+    this.lines.delete(pin);
+  }
+
+  // Test helpers: access register pages directly, without side effects
+  getRegister(register: number, bank: number = 0): number {
+    return this.page(bank)[register & 0x7f];
+  }
+
+  setRegister(register: number, value: number, bank: number = 0): void {
+    this.page(bank)[register & 0x7f] = value & 0xff;
+  }
+
+  getAdvancedRegister(address: number): number {
+    return this.advancedPages.get(address) ?? 0;
+  }
+
+  getFIFOLevel(): number {
+    return this.transaction(() => this.fifo.length);
+  }
+
+  // ==================== Bus Access ====================
+
+  /**
+   * Bring the model up to date, run `fn`, then update the interrupt lines
+   * Lines are only driven once the outermost access completes, so a driver
+   * reacting to an edge sees consistent registers
+   */
+  private transaction<T>(fn: () => T): T {
+    this.depth++;
+    let result: T;
+    try {
+      this.update();
+      result = fn();
+    } finally {
+      this.depth--;
+    }
+    if (this.depth === 0) this.refreshInterruptLines();
+    return result;
+  }
+
+  private readRegister(register: number): number {
+    if (register === Registers.FUNC_CFG_ACCESS) {
+      return this.main[register];
+    }
+    const bank = this.main[Registers.FUNC_CFG_ACCESS];
+    if (bank & FUNC_CFG_EMBEDDED) {
+      if (register === EmbeddedRegisters.PAGE_VALUE) {
+        return this.advancedPages.get(this.advancedPageAddress()) ?? 0;
+      }
+      return this.embedded[register];
+    }
+    if (bank & FUNC_CFG_SENSOR_HUB) {
+      return this.sensorHub[register];
+    }
+
+    const group = OUTPUT_GROUPS.find((g) => register >= g.address && register < g.address + g.length);
+    if (group) {
+      return this.readOutput(group, register);
+    }
+
+    switch (register) {
+      case Registers.STATUS_REG:
+        // BOOT_CHECK_FAIL[3] never set
+        return this.status;
+      case Registers.FIFO_STATUS1:
+        return this.fifo.length & 0xff;
+      case Registers.FIFO_STATUS2: {
+        const value = this.fifoStatus2();
+        this.fifoOverrunLatched = false;
+        return value;
+      }
+      case Registers.TIMESTAMP0:
+      case Registers.TIMESTAMP1:
+      case Registers.TIMESTAMP2:
+      case Registers.TIMESTAMP3: {
+        const ticks = this.timestampTicks();
+        return Math.floor(ticks / 2 ** (8 * (register - Registers.TIMESTAMP0))) & 0xff;
+      }
+      case Registers.INTERNAL_FREQ_FINE:
+        return this.freqFine & 0xff;
+      case Registers.FIFO_DATA_OUT_TAG: {
+        // Reading the tag pops the next word into the output registers
+        const word = this.fifo.shift();
+        if (word) this.fifoOverrun = false;
+        this.main.set(word ?? Buffer.alloc(7), Registers.FIFO_DATA_OUT_TAG);
+        return this.main[register];
+      }
+    }
+
+    const value = this.main[register];
+    if (this.sourcesLatched()) this.clearSourcesOnRead(register);
+    return value;
+  }
+
+  private writeRegister(register: number, value: number): void {
+    if (register === Registers.FUNC_CFG_ACCESS) {
+      this.main[register] = value;
+      return;
+    }
+    const bank = this.main[Registers.FUNC_CFG_ACCESS];
+    if (bank & FUNC_CFG_EMBEDDED) {
+      this.writeEmbedded(register, value);
+      return;
+    }
+    if (bank & FUNC_CFG_SENSOR_HUB) {
+      this.sensorHub[register] = value;
+      return;
+    }
+
+    const isOutput = OUTPUT_GROUPS.some((g) => register >= g.address && register < g.address + g.length);
+    if (isOutput || READ_ONLY.has(register) || register >= Registers.FIFO_DATA_OUT_TAG) {
+      return;
+    }
+
+    switch (register) {
+      case Registers.CTRL3_C:
+        if (value & 0x01) {
+          this.applyReset(); // SW_RESET clears itself once the registers are restored
+          return;
+        }
+        if (value & 0x80 && this.bootUntil < 0) {
+          this.bootUntil = this.now() + BOOT_TIME_MS;
+        }
+        this.main[register] = value | (this.bootUntil >= 0 ? 0x80 : 0);
+        return;
+      case Registers.TIMESTAMP2:
+        if (value === 0xaa) {
+          this.timestampBase = 0;
+          this.timestampStart = this.now();
+        }
+        return;
+      case Registers.CTRL10_C:
+        this.setTimestampRunning((value & 0x20) !== 0);
+        break;
+      case Registers.FIFO_CTRL4:
+        if ((value & 0x07) === FIFOMode.BYPASS) this.clearFIFO();
+        break;
+    }
+
+    this.main[register] = value;
+    if (register === Registers.CTRL1_XL || register === Registers.CTRL2_G) {
+      this.configureChannels();
+    }
+  }
+
+  private writeEmbedded(register: number, value: number): void {
+    if (register === EmbeddedRegisters.PAGE_VALUE) {
+      if (this.embedded[EmbeddedRegisters.PAGE_RW] & 0x40) {
+        // PAGE_WRITE: store and advance PAGE_ADDRESS
+        this.advancedPages.set(this.advancedPageAddress(), value);
+        this.embedded[EmbeddedRegisters.PAGE_ADDRESS] = (this.embedded[EmbeddedRegisters.PAGE_ADDRESS] + 1) & 0xff;
+      }
+      return;
+    }
+    this.embedded[register] = value;
+  }
+
+  private advancedPageAddress(): number {
+    const page = (this.embedded[EmbeddedRegisters.PAGE_SEL] >> 4) & 0x0f;
+    return (page << 8) | this.embedded[EmbeddedRegisters.PAGE_ADDRESS];
+  }
+
+  private page(bank: number): Uint8Array {
+    if (bank & FUNC_CFG_EMBEDDED) return this.embedded;
+    if (bank & FUNC_CFG_SENSOR_HUB) return this.sensorHub;
+    return this.main;
+  }
+
+  /**
+   * Restore the main page to its reset state (SW_RESET)
+   */
+  private applyReset(): void {
+    this.main.fill(0);
+    for (const [register, value] of MAIN_RESET_VALUES) {
+      this.main[register] = value;
+    }
+    this.status = 0;
+    this.frozen.clear();
+    this.pending.clear();
+    this.clearFIFO();
+    this.timestampBase = 0;
+    this.timestampRunning = false;
+    this.bootUntil = -1;
+    this.previousAccel = null;
+    this.freeFallSamples = 0;
+    this.configureChannels();
+  }
+
+  // ==================== Time and Sample Generation ====================
+
+  private now(): number {
+    return (this.realTime ? performance.now() - this.startTime : 0) + this.offset;
+  }
+
+  /**
+   * Generate every sample due since the last access
+   */
+  private update(): void {
+    const now = this.now();
+    if (this.bootUntil >= 0 && now >= this.bootUntil) {
+      this.bootUntil = -1;
+      this.main[Registers.CTRL3_C] &= ~0x80;
+    }
+
+    for (let i = 0; i < MAX_CATCH_UP_SAMPLES; i++) {
+      const gyroTime = nextSampleTime(this.gyro);
+      const accelTime = nextSampleTime(this.accel);
+      const temperatureTime = nextSampleTime(this.temperature);
+      const time = Math.min(gyroTime, accelTime, temperatureTime);
+      if (time > now) return;
+
+      if (time === gyroTime) {
+        this.gyroSample(time);
+        this.gyro.index++;
+      } else if (time === accelTime) {
+        this.accelSample(time);
+        this.accel.index++;
+      } else {
+        this.temperatureSample(time);
+        this.temperature.index++;
+      }
+    }
+
+    // Too far behind: drop the backlog like a sensor nobody reads
+    for (const channel of [this.accel, this.gyro, this.temperature]) {
+      if (channel.rate > 0) channel.index = Math.floor((now * channel.rate) / 1000) + 1;
+    }
+  }
+
+  /**
+   * Start, stop or retime the sample channels after an ODR change
+   */
+  private configureChannels(): void {
+    const accelRate = AccelODRHz[(this.main[Registers.CTRL1_XL] >> 4) as keyof typeof AccelODRHz] ?? 0;
+    const gyroRate = GyroODRHz[(this.main[Registers.CTRL2_G] >> 4) as keyof typeof GyroODRHz] ?? 0;
+    const now = this.now();
+    startChannel(this.accel, accelRate, now);
+    startChannel(this.gyro, gyroRate, now);
+    startChannel(this.temperature, accelRate > 0 || gyroRate > 0 ? TEMPERATURE_ODR : 0, now);
+  }
+
+  private accelSample(time: number): void {
+    const { accel } = this.sampleAt(time);
+    const mg = { ...accel };
+
+    // ST_XL[1:0]: positive or negative electrostatic deflection on every axis
+    const selfTest = this.main[Registers.CTRL5_C] & 0x03;
+    const deflection = selfTest === 1 ? ACCEL_SELF_TEST_MG : selfTest === 2 ? -ACCEL_SELF_TEST_MG : 0;
+
+    // USR_OFF_ON_OUT: the user offset is subtracted from the output
+    const userOffset = (this.main[Registers.CTRL7_G] & 0x02) !== 0;
+    const weight = AccelOffsetWeightMg[
+      (this.main[Registers.CTRL6_C] & 0x08) !== 0 ? AccelOffsetWeight.COARSE : AccelOffsetWeight.FINE
+    ];
+    const axes: Axis[] = ['x', 'y', 'z'];
+    axes.forEach((axis, i) => {
+      const offset = userOffset ? toInt8(this.main[Registers.X_OFS_USR + i]) * weight : 0;
+      mg[axis] = mg[axis] + deflection - offset;
+    });
+
+    const fs = ((this.main[Registers.CTRL1_XL] >> 2) & 0x03) as AccelFullScale;
+    const data = encodeVector(mg, AccelSensitivity[fs]);
+    this.latchOutput(OUTPUT_GROUPS[2], data);
+
+    // FIFO_CTRL3 BDR_XL[3:0]
+    const bdr = AccelODRHz[(this.main[Registers.FIFO_CTRL3] & 0x0f) as keyof typeof AccelODRHz] ?? 0;
+    this.batch(this.accel, bdr, FIFOTag.ACCEL_NC, data, time);
+    this.accel.count++;
+
+    if (this.interruptsEnabled()) {
+      this.detectEvents(mg, AccelFSValue[fs] * 1000);
+    }
+  }
+
+  private gyroSample(time: number): void {
+    const { gyro } = this.sampleAt(time);
+
+    // ST_G[1:0]: 1 positive, 3 negative
+    const selfTest = (this.main[Registers.CTRL5_C] >> 2) & 0x03;
+    const deflection = selfTest === 1 ? GYRO_SELF_TEST_MDPS : selfTest === 3 ? -GYRO_SELF_TEST_MDPS : 0;
+    const mdps = { x: gyro.x + deflection, y: gyro.y + deflection, z: gyro.z + deflection };
+
+    // FS_G[3:0]: FS_4000[0], FS_125[1], FS_G[3:2]
+    const fsBits = this.main[Registers.CTRL2_G] & 0x0f;
+    const fs = (fsBits & 0x01 ? GyroFullScale.DPS_4000 : fsBits & 0x02 ? GyroFullScale.DPS_125 : fsBits & 0x0c) as GyroFullScale;
+    const data = encodeVector(mdps, GyroSensitivity[fs]);
+    this.latchOutput(OUTPUT_GROUPS[1], data);
+
+    // FIFO_CTRL3 BDR_GY[7:4], 0x0b is 6.5 Hz
+    const bdrCode = this.main[Registers.FIFO_CTRL3] >> 4;
+    const bdr = bdrCode === 0x0b ? 6.5 : GyroODRHz[bdrCode as keyof typeof GyroODRHz] ?? 0;
+    this.batch(this.gyro, bdr, FIFOTag.GYRO_NC, data, time);
+    this.gyro.count++;
+  }
+
+  private temperatureSample(time: number): void {
+    const { temperature } = this.sampleAt(time);
+    const data = Buffer.alloc(6);
+    data.writeInt16LE(clamp(Math.round((temperature - 25) * 256), -32768, 32767), 0);
+    this.latchOutput(OUTPUT_GROUPS[0], data.subarray(0, 2));
+
+    const bdr = TEMP_BDR_HZ[(this.main[Registers.FIFO_CTRL4] >> 4) & 0x03];
+    this.batch(this.temperature, bdr, FIFOTag.TEMPERATURE, data, time);
+    this.temperature.count++;
+  }
+
+  /**
+   * Sensor values of the motion profile at emulator time `time`
+   */
+  private sampleAt(time: number): MotionSample {
+    const profile = this.profile;
+    const t = time - this.profileStart;
+
+    switch (profile.type) {
+      case 'constant':
+        return {
+          accel: profile.accel ?? REST_ACCEL,
+          gyro: profile.gyro ?? ZERO,
+          temperature: profile.temperature ?? 25,
+        };
+      case 'sinusoid': {
+        const s = Math.sin((2 * Math.PI * profile.frequency * t) / 1000);
+        const wave = (offset: Vector3D, amplitude: Vector3D): Vector3D => ({
+          x: offset.x + amplitude.x * s,
+          y: offset.y + amplitude.y * s,
+          z: offset.z + amplitude.z * s,
+        });
+        return {
+          accel: wave(profile.accelOffset ?? REST_ACCEL, profile.accelAmplitude ?? ZERO),
+          gyro: wave(profile.gyroOffset ?? ZERO, profile.gyroAmplitude ?? ZERO),
+          temperature: profile.temperature ?? 25,
+        };
+      }
+      case 'trace': {
+        const points = profile.points;
+        const end = points[points.length - 1].time;
+        const traceTime = profile.loop && end > 0 ? t % end : t;
+
+        let next = points.findIndex((p) => p.time > traceTime);
+        if (next === -1) next = points.length;
+        if (next === 0 || next === points.length) {
+          const point = points[next === 0 ? 0 : points.length - 1];
+          return { accel: point.accel, gyro: point.gyro, temperature: point.temperature ?? 25 };
+        }
+
+        const a = points[next - 1];
+        const b = points[next];
+        const f = (traceTime - a.time) / (b.time - a.time);
+        const lerp = (u: number, v: number) => u + (v - u) * f;
+        const lerpVector = (u: Vector3D, v: Vector3D): Vector3D => ({
+          x: lerp(u.x, v.x),
+          y: lerp(u.y, v.y),
+          z: lerp(u.z, v.z),
+        });
+        return {
+          accel: lerpVector(a.accel, b.accel),
+          gyro: lerpVector(a.gyro, b.gyro),
+          temperature: lerp(a.temperature ?? 25, b.temperature ?? 25),
+        };
+      }
+    }
+  }
+
+  // ==================== Output Registers ====================
+
+  /**
+   * Publish a new sample, unless BDU holds the registers mid-read
+   */
+  private latchOutput(group: OutputGroup, data: Buffer): void {
+    if (this.frozen.has(group)) {
+      this.pending.set(group, Buffer.from(data));
+    } else {
+      this.main.set(data, group.address);
+    }
+    this.status |= group.flag;
+  }
+
+  private readOutput(group: OutputGroup, register: number): number {
+    const value = this.main[register];
+    this.status &= ~group.flag;
+
+    // BDU: reading a low byte freezes the group until the matching high byte is read
+    if ((this.main[Registers.CTRL3_C] & 0x40) !== 0) {
+      if ((register - group.address) % 2 === 0) {
+        this.frozen.add(group);
+      } else if (this.frozen.delete(group)) {
+        const pending = this.pending.get(group);
+        if (pending) this.main.set(pending, group.address);
+        this.pending.delete(group);
+      }
+    }
+    return value;
+  }
+
+  // ==================== FIFO ====================
+
+  /**
+   * Write a sample to the FIFO if its sensor is batched at `bdr` Hz
+   */
+  private batch(channel: Channel, bdr: number, tag: FIFOTag, data: Buffer, time: number): void {
+    const mode = this.main[Registers.FIFO_CTRL4] & 0x07;
+    // Trigger-based modes have no trigger here: STREAM_TO_FIFO streams, the bypass ones wait
+    if (bdr === 0 || (mode !== FIFOMode.FIFO && mode !== FIFOMode.STREAM && mode !== FIFOMode.STREAM_TO_FIFO)) {
+      return;
+    }
+    const decimation = Math.max(1, Math.round(channel.rate / bdr));
+    if (channel.count % decimation !== 0) return;
+
+    // A new batch slot advances TAG_CNT and may carry a timestamp word
+    if (time !== this.lastBatchTime) {
+      this.lastBatchTime = time;
+      this.batchSlots++;
+      const decimationTs = TIMESTAMP_DECIMATION[this.main[Registers.FIFO_CTRL4] >> 6];
+      if (decimationTs > 0 && this.timestampRunning && this.batchSlots % decimationTs === 0) {
+        const timestamp = Buffer.alloc(6);
+        timestamp.writeUInt32LE(this.timestampTicks(time), 0);
+        this.pushFIFO(FIFOTag.TIMESTAMP, timestamp);
+      }
+    }
+    this.pushFIFO(tag, data);
+  }
+
+  private pushFIFO(tag: FIFOTag, data: Buffer): void {
+    const mode = this.main[Registers.FIFO_CTRL4] & 0x07;
+    if (this.fifo.length >= this.fifoCapacity()) {
+      if (mode === FIFOMode.FIFO) return; // FIFO mode stops collecting when full
+      this.fifo.shift();
+      this.fifoOverrun = true;
+      this.fifoOverrunLatched = true;
+    }
+
+    // FIFO_DATA_OUT_TAG: TAG_SENSOR[7:3], TAG_CNT[2:1], TAG_PARITY[0]
+    let tagByte = (tag << 3) | ((this.batchSlots & 0x03) << 1);
+    tagByte |= parity(tagByte);
+    this.fifo.push(Buffer.concat([Buffer.from([tagByte]), data.subarray(0, 6)]));
+  }
+
+  private fifoCapacity(): number {
+    const watermark = this.fifoWatermark();
+    const stopOnWatermark = (this.main[Registers.FIFO_CTRL2] & 0x80) !== 0;
+    return stopOnWatermark && watermark > 0 ? watermark : FIFO_MAX_SAMPLES;
+  }
+
+  private fifoWatermark(): number {
+    return ((this.main[Registers.FIFO_CTRL2] & 0x01) << 8) | this.main[Registers.FIFO_CTRL1];
+  }
+
+  private fifoStatus2(): number {
+    // FIFO_STATUS2: WTM_IA[7], OVR_IA[6], FULL_IA[5], COUNTER_BDR_IA[4], FIFO_OVR_LATCHED[3], DIFF_FIFO[9:8]
+    const level = this.fifo.length;
+    const watermark = this.fifoWatermark();
+    let value = (level >> 8) & 0x03;
+    if (watermark > 0 && level >= watermark) value |= 0x80;
+    if (this.fifoOverrun) value |= 0x40;
+    if (level >= this.fifoCapacity()) value |= 0x20;
+    if (this.fifoOverrunLatched) value |= 0x08;
+    return value;
+  }
+
+  private clearFIFO(): void {
+    this.fifo = [];
+    this.fifoOverrun = false;
+    this.fifoOverrunLatched = false;
+    this.lastBatchTime = -1;
+    this.batchSlots = 0;
+  }
+
+  // ==================== Timestamp ====================
+
+  private timestampTicks(time: number = this.now()): number {
+    if (!this.timestampRunning) return this.timestampBase;
+    // INTERNAL_FREQ_FINE: 0.15% per LSB faster internal clock
+    const tickUs = TIMESTAMP_RESOLUTION_US / (1 + 0.0015 * this.freqFine);
+    const elapsed = Math.floor(((time - this.timestampStart) * 1000) / tickUs);
+    return (this.timestampBase + elapsed) % TIMESTAMP_RANGE;
+  }
+
+  private setTimestampRunning(running: boolean): void {
+    if (running === this.timestampRunning) return;
+    this.timestampBase = this.timestampTicks();
+    this.timestampStart = this.now();
+    this.timestampRunning = running;
+  }
+
+  // ==================== Event Detection ====================
+
+  private interruptsEnabled(): boolean {
+    return (this.main[Registers.TAP_CFG2] & 0x80) !== 0; // INTERRUPTS_ENABLE
+  }
+
+  private sourcesLatched(): boolean {
+    return (this.main[Registers.TAP_CFG0] & 0x01) !== 0; // LIR
+  }
+
+  /**
+   * Run free-fall, wake-up and 6D detection on a new accelerometer sample
+   */
+  private detectEvents(mg: Vector3D, fullScaleMg: number): void {
+    const main = this.main;
+    if (!this.sourcesLatched()) {
+      // Pulsed sources last one sample; SLEEP_STATE and the 6D position are states, not events
+      main[Registers.WAKE_UP_SRC] &= 0x10;
+      main[Registers.TAP_SRC] = 0;
+      main[Registers.D6D_SRC] &= ~0x40;
+      main[Registers.ALL_INT_SRC] = 0;
+    }
+
+    // Free-fall: every axis below FF_THS for longer than FF_DUR samples
+    const threshold = FreeFallThresholdMg[(main[Registers.FREE_FALL] & 0x07) as FreeFallThreshold];
+    const duration = ((main[Registers.WAKE_UP_DUR] & 0x80) >> 2) | (main[Registers.FREE_FALL] >> 3);
+    const falling = Math.abs(mg.x) < threshold && Math.abs(mg.y) < threshold && Math.abs(mg.z) < threshold;
+    this.freeFallSamples = falling ? this.freeFallSamples + 1 : 0;
+    if (this.freeFallSamples > duration) {
+      main[Registers.WAKE_UP_SRC] |= 0x20; // FF_IA
+      main[Registers.ALL_INT_SRC] |= 0x01;
+    }
+
+    // Wake-up: slope above WK_THS on any axis (FS/256 or FS/64 per LSB)
+    const weight = (main[Registers.WAKE_UP_DUR] & 0x10) !== 0 ? fullScaleMg / 256 : fullScaleMg / 64;
+    const wakeUpThreshold = (main[Registers.WAKE_UP_THS] & 0x3f) * weight;
+    if (this.previousAccel) {
+      const previous = this.previousAccel;
+      let axes = 0;
+      if (Math.abs(mg.x - previous.x) > wakeUpThreshold) axes |= 0x04;
+      if (Math.abs(mg.y - previous.y) > wakeUpThreshold) axes |= 0x02;
+      if (Math.abs(mg.z - previous.z) > wakeUpThreshold) axes |= 0x01;
+      if (axes !== 0) {
+        main[Registers.WAKE_UP_SRC] |= 0x08 | axes; // WU_IA, X_WU, Y_WU, Z_WU
+        main[Registers.ALL_INT_SRC] |= 0x02;
+      }
+    }
+    this.previousAccel = mg;
+
+    // 6D: the dominant axis must be within (90° - SIXD_THS) of vertical
+    const angle = [80, 70, 60, 50][(main[Registers.TAP_THS_6D] >> 5) & 0x03];
+    const limit = 1000 * Math.sin((angle * Math.PI) / 180);
+    const axes: [number, number, number][] = [
+      [mg.x, 0x02, 0x01], // XH, XL
+      [mg.y, 0x08, 0x04], // YH, YL
+      [mg.z, 0x20, 0x10], // ZH, ZL
+    ];
+    const [value, high, low] = axes.reduce((a, b) => (Math.abs(b[0]) > Math.abs(a[0]) ? b : a));
+    if (Math.abs(value) > limit) {
+      const position = value > 0 ? high : low;
+      if ((main[Registers.D6D_SRC] & 0x3f) !== position) {
+        main[Registers.D6D_SRC] = 0x40 | position; // D6D_IA
+        main[Registers.ALL_INT_SRC] |= 0x10;
+      }
+    }
+  }
+
+  /**
+   * Latched sources are cleared by reading their source register
+   */
+  private clearSourcesOnRead(register: number): void {
+    const main = this.main;
+    switch (register) {
+      case Registers.ALL_INT_SRC:
+        main[Registers.ALL_INT_SRC] = 0;
+        main[Registers.WAKE_UP_SRC] &= 0x10;
+        main[Registers.TAP_SRC] = 0;
+        main[Registers.D6D_SRC] &= ~0x40;
+        break;
+      case Registers.WAKE_UP_SRC:
+        main[Registers.WAKE_UP_SRC] &= 0x10;
+        main[Registers.ALL_INT_SRC] &= ~0x23;
+        break;
+      case Registers.TAP_SRC:
+        main[Registers.TAP_SRC] = 0;
+        main[Registers.ALL_INT_SRC] &= ~0x0c;
+        break;
+      case Registers.D6D_SRC:
+        main[Registers.D6D_SRC] &= ~0x40;
+        main[Registers.ALL_INT_SRC] &= ~0x10;
+        break;
+    }
+  }
+
+  // ==================== Interrupt Pins ====================
+
+  private refreshInterruptLines(): void {
+    // CTRL3_C H_LACTIVE: pins are active low
+    const activeLow = (this.main[Registers.CTRL3_C] & 0x20) !== 0;
+    for (const [pin, gpio] of this.lines) {
+      const active = this.isPinActive(pin);
+      gpio.setValue(active !== activeLow ? 1 : 0);
+    }
+  }
+
+  private isPinActive(pin: InterruptPin): boolean {
+    // CTRL4_C INT2_on_INT1: everything is routed to INT1
+    if ((this.main[Registers.CTRL4_C] & 0x20) !== 0) {
+      return pin === InterruptPin.INT1 && (this.isRoutedActive(InterruptPin.INT1) || this.isRoutedActive(InterruptPin.INT2));
+    }
+    return this.isRoutedActive(pin);
+  }
+
+  private isRoutedActive(pin: InterruptPin): boolean {
+    const isInt1 = pin === InterruptPin.INT1;
+    const ctrl = this.main[isInt1 ? Registers.INT1_CTRL : Registers.INT2_CTRL];
+    const md = this.main[isInt1 ? Registers.MD1_CFG : Registers.MD2_CFG];
+    const fifoStatus = this.fifoStatus2();
+
+    // INTx_CTRL: data ready, FIFO threshold (WTM), overrun and full
+    if ((ctrl & 0x01 && this.status & 0x01) || (ctrl & 0x02 && this.status & 0x02)) return true;
+    if (!isInt1 && ctrl & 0x04 && this.status & 0x04) return true;
+    if ((ctrl & 0x08 && fifoStatus & 0x80) || (ctrl & 0x10 && fifoStatus & 0x40) || (ctrl & 0x20 && fifoStatus & 0x20)) {
+      return true;
+    }
+
+    // MDx_CFG: 6D[2], DOUBLE_TAP[3], FF[4], WU[5], SINGLE_TAP[6]
+    if (!this.interruptsEnabled()) return false;
+    const sources = this.main[Registers.ALL_INT_SRC];
+    return (
+      (md & 0x04 && sources & 0x10) ||
+      (md & 0x08 && sources & 0x08) ||
+      (md & 0x10 && sources & 0x01) ||
+      (md & 0x20 && sources & 0x02) ||
+      (md & 0x40 && sources & 0x04)
+    ) !== 0;
+  }
+}
+
+function nextSampleTime(channel: Channel): number {
+  return channel.rate > 0 ? (channel.index * 1000) / channel.rate : Infinity;
+}
+
+function startChannel(channel: Channel, rate: number, now: number): void {
+  if (channel.rate === rate) return;
+  channel.rate = rate;
+  channel.index = rate > 0 ? Math.floor((now * rate) / 1000) + 1 : 0;
+  channel.count = 0;
+}
+
+/**
+ * Encode a vector as little-endian 16-bit output words
+ */
+function encodeVector(v: Vector3D, sensitivity: number): Buffer {
+  const buffer = Buffer.alloc(6);
+  buffer.writeInt16LE(clamp(Math.round(v.x / sensitivity), -32768, 32767), 0);
+  buffer.writeInt16LE(clamp(Math.round(v.y / sensitivity), -32768, 32767), 2);
+  buffer.writeInt16LE(clamp(Math.round(v.z / sensitivity), -32768, 32767), 4);
+  return buffer;
+}
+
+function toInt8(value: number): number {
+  return value & 0x80 ? value - 0x100 : value;
+}
+
+function parity(value: number): number {
+  let bits = 0;
+  for (let v = value; v !== 0; v >>= 1) bits ^= v & 1;
+  return bits;
+}
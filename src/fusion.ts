@@ -0,0 +1,372 @@
+/**
+ * AHRS sensor fusion
+ *
+ * Integrates the gyroscope into an orientation quaternion and corrects its
+ * drift towards the gravity direction measured by the accelerometer, and
+ * towards magnetic north when magnetometer vectors are supplied. Two filters
+ * are available:
+ *
+ * - Madgwick: gradient descent step of size `beta` (rad/s) per update
+ * - Mahony: PI controller on the vector error, `ki` also tracks gyro bias
+ *
+ * Without magnetometer the yaw is relative to the heading at the first
+ * sample and drifts with the gyroscope bias.
+ */
+
+import {
+  Vector3D,
+  IMUData,
+  EulerAngles,
+  FusionAlgorithm,
+  FusionOptions,
+  AttitudeEstimate,
+} from './types';
+
+const DEFAULT_SAMPLE_RATE = 104;
+const DEFAULT_BETA = 0.1;
+const DEFAULT_KP = 0.5;
+const DEFAULT_KI = 0;
+
+// Timestamp deltas above this are treated as gaps and replaced by the nominal period (s)
+const MAX_DT = 1;
+
+const MDPS_TO_RAD = Math.PI / 180000;
+const RAD_TO_DEG = 180 / Math.PI;
+
+/**
+ * Attitude and heading reference system fed with IMUData samples
+ * Samples are timed by their timestamp when present, by `sampleRate` otherwise
+ */
+export class AHRS {
+  private algorithm: FusionAlgorithm;
+  private beta: number = DEFAULT_BETA;
+  private kp: number = DEFAULT_KP;
+  private ki: number = DEFAULT_KI;
+  private sampleRate: number;
+  private magnetometer: FusionOptions['magnetometer'];
+
+  private q: [number, number, number, number] = [1, 0, 0, 0];
+  private integralError: [number, number, number] = [0, 0, 0];
+  private initialized: boolean = false;
+  private lastTimestamp: number | undefined;
+  private lastAccel: Vector3D = { x: 0, y: 0, z: 1000 };
+
+  constructor(options: FusionOptions = {}) {
+    const algorithm = options.algorithm ?? 'madgwick';
+    if (algorithm !== 'madgwick' && algorithm !== 'mahony') {
+      throw new Error(`Unknown fusion algorithm "${algorithm}", expected madgwick or mahony`);
+    }
+    this.algorithm = algorithm;
+    this.setGains(options);
+
+    this.sampleRate = options.sampleRate ?? DEFAULT_SAMPLE_RATE;
+    if (!(this.sampleRate > 0)) {
+      throw new Error(`Fusion sample rate must be positive, got ${options.sampleRate}`);
+    }
+    this.magnetometer = options.magnetometer;
+  }
+
+  getAlgorithm(): FusionAlgorithm {
+    return this.algorithm;
+  }
+
+  /**
+   * Change filter gains; omitted gains keep their value
+   */
+  setGains(gains: Pick<FusionOptions, 'beta' | 'kp' | 'ki'>): void {
+    for (const name of ['beta', 'kp', 'ki'] as const) {
+      const value = gains[name];
+      if (value !== undefined && !(value >= 0)) {
+        throw new Error(`Fusion gain ${name} must be non-negative, got ${value}`);
+      }
+    }
+    this.beta = gains.beta ?? this.beta;
+    this.kp = gains.kp ?? this.kp;
+    this.ki = gains.ki ?? this.ki;
+  }
+
+  /**
+   * Forget the orientation; the next sample re-initializes it from gravity (and north)
+   */
+  reset(): void {
+    this.q = [1, 0, 0, 0];
+    this.integralError = [0, 0, 0];
+    this.initialized = false;
+    this.lastTimestamp = undefined;
+    this.lastAccel = { x: 0, y: 0, z: 1000 };
+  }
+
+  /**
+   * Update the estimate with one sample
+   * @param data - Accelerometer (mg) and gyroscope (mdps) reading
+   * @param magnetometer - Magnetic field in the frame of `data`, any unit (default: the magnetometer option)
+   * @param dt - Time since the previous sample in seconds (default: from timestamps or sampleRate)
+   */
+  update(data: IMUData, magnetometer?: Vector3D | null, dt?: number): AttitudeEstimate {
+    const mag = magnetometer === undefined ? this.magnetometer?.() ?? null : magnetometer;
+    const period = dt ?? this.samplePeriod(data.timestamp);
+    if (data.timestamp !== undefined) {
+      this.lastTimestamp = data.timestamp;
+    }
+    this.lastAccel = { ...data.accel };
+
+    const a = normalize([data.accel.x, data.accel.y, data.accel.z]);
+    const m = mag ? normalize([mag.x, mag.y, mag.z]) : null;
+
+    if (!this.initialized) {
+      // Start from the measured attitude instead of converging from level
+      if (a) {
+        this.q = initialAttitude(a, m);
+        this.initialized = true;
+      }
+      return this.getEstimate();
+    }
+
+    const g: [number, number, number] = [
+      data.gyro.x * MDPS_TO_RAD,
+      data.gyro.y * MDPS_TO_RAD,
+      data.gyro.z * MDPS_TO_RAD,
+    ];
+    if (this.algorithm === 'madgwick') {
+      this.madgwickStep(g, a, m, period);
+    } else {
+      this.mahonyStep(g, a, m, period);
+    }
+
+    return this.getEstimate();
+  }
+
+  /**
+   * Current estimate; linear acceleration refers to the last sample
+   */
+  getEstimate(): AttitudeEstimate {
+    const [w, x, y, z] = this.q;
+    // Earth Z axis (up) expressed in the frame of the samples
+    const gravity: Vector3D = {
+      x: 2 * (x * z - w * y) * 1000,
+      y: 2 * (w * x + y * z) * 1000,
+      z: (w * w - x * x - y * y + z * z) * 1000,
+    };
+    return {
+      quaternion: { w, x, y, z },
+      euler: toEuler(this.q),
+      gravity,
+      linearAccel: {
+        x: this.lastAccel.x - gravity.x,
+        y: this.lastAccel.y - gravity.y,
+        z: this.lastAccel.z - gravity.z,
+      },
+    };
+  }
+
+  private samplePeriod(timestamp: number | undefined): number {
+    if (timestamp !== undefined && this.lastTimestamp !== undefined) {
+      const delta = (timestamp - this.lastTimestamp) / 1e6;
+      if (delta > 0 && delta <= MAX_DT) {
+        return delta;
+      }
+    }
+    return 1 / this.sampleRate;
+  }
+
+  private madgwickStep(
+    [gx, gy, gz]: [number, number, number],
+    a: [number, number, number] | null,
+    m: [number, number, number] | null,
+    dt: number
+  ): void {
+    let [q0, q1, q2, q3] = this.q;
+
+    // Rate of change of quaternion from gyroscope
+    let qDot0 = 0.5 * (-q1 * gx - q2 * gy - q3 * gz);
+    let qDot1 = 0.5 * (q0 * gx + q2 * gz - q3 * gy);
+    let qDot2 = 0.5 * (q0 * gy - q1 * gz + q3 * gx);
+    let qDot3 = 0.5 * (q0 * gz + q1 * gy - q2 * gx);
+
+    if (a) {
+      const [ax, ay, az] = a;
+      let s0: number, s1: number, s2: number, s3: number;
+
+      if (m) {
+        const [mx, my, mz] = m;
+        const q0q0 = q0 * q0, q0q1 = q0 * q1, q0q2 = q0 * q2, q0q3 = q0 * q3;
+        const q1q1 = q1 * q1, q1q2 = q1 * q2, q1q3 = q1 * q3;
+        const q2q2 = q2 * q2, q2q3 = q2 * q3, q3q3 = q3 * q3;
+        const _2q0 = 2 * q0, _2q1 = 2 * q1, _2q2 = 2 * q2, _2q3 = 2 * q3;
+        const _2q0q2 = 2 * q0q2, _2q2q3 = 2 * q2q3;
+        const _2q0mx = 2 * q0 * mx, _2q0my = 2 * q0 * my, _2q0mz = 2 * q0 * mz, _2q1mx = 2 * q1 * mx;
+
+        // Reference direction of the earth's magnetic field
+        const hx = mx * q0q0 - _2q0my * q3 + _2q0mz * q2 + mx * q1q1 + _2q1 * my * q2 + _2q1 * mz * q3 - mx * q2q2 - mx * q3q3;
+        const hy = _2q0mx * q3 + my * q0q0 - _2q0mz * q1 + _2q1mx * q2 - my * q1q1 + my * q2q2 + _2q2 * mz * q3 - my * q3q3;
+        const _2bx = Math.sqrt(hx * hx + hy * hy);
+        const _2bz = -_2q0mx * q2 + _2q0my * q1 + mz * q0q0 + _2q1mx * q3 - mz * q1q1 + _2q2 * my * q3 - mz * q2q2 + mz * q3q3;
+        const _4bx = 2 * _2bx, _4bz = 2 * _2bz;
+
+        // Objective function residuals for gravity and magnetic field
+        const fgx = 2 * q1q3 - _2q0q2 - ax;
+        const fgy = 2 * q0q1 + _2q2q3 - ay;
+        const fgz = 1 - 2 * q1q1 - 2 * q2q2 - az;
+        const fbx = _2bx * (0.5 - q2q2 - q3q3) + _2bz * (q1q3 - q0q2) - mx;
+        const fby = _2bx * (q1q2 - q0q3) + _2bz * (q0q1 + q2q3) - my;
+        const fbz = _2bx * (q0q2 + q1q3) + _2bz * (0.5 - q1q1 - q2q2) - mz;
+
+        // Gradient (Jacobian transpose times residuals)
+        s0 = -_2q2 * fgx + _2q1 * fgy - _2bz * q2 * fbx + (-_2bx * q3 + _2bz * q1) * fby + _2bx * q2 * fbz;
+        s1 = _2q3 * fgx + _2q0 * fgy - 4 * q1 * fgz + _2bz * q3 * fbx + (_2bx * q2 + _2bz * q0) * fby + (_2bx * q3 - _4bz * q1) * fbz;
+        s2 = -_2q0 * fgx + _2q3 * fgy - 4 * q2 * fgz + (-_4bx * q2 - _2bz * q0) * fbx + (_2bx * q1 + _2bz * q3) * fby + (_2bx * q0 - _4bz * q2) * fbz;
+        s3 = _2q1 * fgx + _2q2 * fgy + (-_4bx * q3 + _2bz * q1) * fbx + (-_2bx * q0 + _2bz * q2) * fby + _2bx * q1 * fbz;
+      } else {
+        const _2q0 = 2 * q0, _2q1 = 2 * q1, _2q2 = 2 * q2, _2q3 = 2 * q3;
+        const _4q0 = 4 * q0, _4q1 = 4 * q1, _4q2 = 4 * q2;
+        const _8q1 = 8 * q1, _8q2 = 8 * q2;
+        const q0q0 = q0 * q0, q1q1 = q1 * q1, q2q2 = q2 * q2, q3q3 = q3 * q3;
+
+        s0 = _4q0 * q2q2 + _2q2 * ax + _4q0 * q1q1 - _2q1 * ay;
+        s1 = _4q1 * q3q3 - _2q3 * ax + 4 * q0q0 * q1 - _2q0 * ay - _4q1 + _8q1 * q1q1 + _8q1 * q2q2 + _4q1 * az;
+        s2 = 4 * q0q0 * q2 + _2q0 * ax + _4q2 * q3q3 - _2q3 * ay - _4q2 + _8q2 * q1q1 + _8q2 * q2q2 + _4q2 * az;
+        s3 = 4 * q1q1 * q3 - _2q1 * ax + 4 * q2q2 * q3 - _2q2 * ay;
+      }
+
+      const step = normalize([s0, s1, s2, s3]);
+      if (step) {
+        qDot0 -= this.beta * step[0];
+        qDot1 -= this.beta * step[1];
+        qDot2 -= this.beta * step[2];
+        qDot3 -= this.beta * step[3];
+      }
+    }
+
+    q0 += qDot0 * dt;
+    q1 += qDot1 * dt;
+    q2 += qDot2 * dt;
+    q3 += qDot3 * dt;
+    this.q = normalize([q0, q1, q2, q3]) ?? [1, 0, 0, 0];
+  }
+
+  private mahonyStep(
+    [gx, gy, gz]: [number, number, number],
+    a: [number, number, number] | null,
+    m: [number, number, number] | null,
+    dt: number
+  ): void {
+    const [q0, q1, q2, q3] = this.q;
+
+    if (a) {
+      const [ax, ay, az] = a;
+      const q0q0 = q0 * q0, q0q1 = q0 * q1, q0q2 = q0 * q2, q0q3 = q0 * q3;
+      const q1q1 = q1 * q1, q1q2 = q1 * q2, q1q3 = q1 * q3;
+      const q2q2 = q2 * q2, q2q3 = q2 * q3, q3q3 = q3 * q3;
+
+      // Estimated direction of gravity (halved)
+      const vx = q1q3 - q0q2;
+      const vy = q0q1 + q2q3;
+      const vz = q0q0 - 0.5 + q3q3;
+
+      // Error is the cross product between measured and estimated directions
+      let ex = ay * vz - az * vy;
+      let ey = az * vx - ax * vz;
+      let ez = ax * vy - ay * vx;
+
+      if (m) {
+        const [mx, my, mz] = m;
+        // Reference direction of the earth's magnetic field
+        const hx = 2 * (mx * (0.5 - q2q2 - q3q3) + my * (q1q2 - q0q3) + mz * (q1q3 + q0q2));
+        const hy = 2 * (mx * (q1q2 + q0q3) + my * (0.5 - q1q1 - q3q3) + mz * (q2q3 - q0q1));
+        const bx = Math.sqrt(hx * hx + hy * hy);
+        const bz = 2 * (mx * (q1q3 - q0q2) + my * (q2q3 + q0q1) + mz * (0.5 - q1q1 - q2q2));
+
+        // Estimated direction of the magnetic field (halved)
+        const wx = bx * (0.5 - q2q2 - q3q3) + bz * (q1q3 - q0q2);
+        const wy = bx * (q1q2 - q0q3) + bz * (q0q1 + q2q3);
+        const wz = bx * (q0q2 + q1q3) + bz * (0.5 - q1q1 - q2q2);
+
+        ex += my * wz - mz * wy;
+        ey += mz * wx - mx * wz;
+        ez += mx * wy - my * wx;
+      }
+
+      if (this.ki > 0) {
+        this.integralError[0] += 2 * this.ki * ex * dt;
+        this.integralError[1] += 2 * this.ki * ey * dt;
+        this.integralError[2] += 2 * this.ki * ez * dt;
+        gx += this.integralError[0];
+        gy += this.integralError[1];
+        gz += this.integralError[2];
+      } else {
+        this.integralError = [0, 0, 0];
+      }
+
+      gx += 2 * this.kp * ex;
+      gy += 2 * this.kp * ey;
+      gz += 2 * this.kp * ez;
+    }
+
+    // Integrate rate of change of quaternion
+    gx *= 0.5 * dt;
+    gy *= 0.5 * dt;
+    gz *= 0.5 * dt;
+    this.q = normalize([
+      q0 + (-q1 * gx - q2 * gy - q3 * gz),
+      q1 + (q0 * gx + q2 * gz - q3 * gy),
+      q2 + (q0 * gy - q1 * gz + q3 * gx),
+      q3 + (q0 * gz + q1 * gy - q2 * gx),
+    ]) ?? [1, 0, 0, 0];
+  }
+}
+
+/**
+ * Attitude matching a gravity direction, and magnetic north when given
+ */
+function initialAttitude(
+  [ax, ay, az]: [number, number, number],
+  m: [number, number, number] | null
+): [number, number, number, number] {
+  const roll = Math.atan2(ay, az);
+  const pitch = Math.atan2(-ax, Math.sqrt(ay * ay + az * az));
+  let yaw = 0;
+  if (m) {
+    // Tilt-compensated heading, north along the earth X axis
+    const [mx, my, mz] = m;
+    const cr = Math.cos(roll), sr = Math.sin(roll);
+    const cp = Math.cos(pitch), sp = Math.sin(pitch);
+    const hx = mx * cp + my * sp * sr + mz * sp * cr;
+    const hy = my * cr - mz * sr;
+    yaw = Math.atan2(-hy, hx);
+  }
+  return fromEuler(roll, pitch, yaw);
+}
+
+function fromEuler(roll: number, pitch: number, yaw: number): [number, number, number, number] {
+  const cr = Math.cos(roll / 2), sr = Math.sin(roll / 2);
+  const cp = Math.cos(pitch / 2), sp = Math.sin(pitch / 2);
+  const cy = Math.cos(yaw / 2), sy = Math.sin(yaw / 2);
+  return [
+    cr * cp * cy + sr * sp * sy,
+    sr * cp * cy - cr * sp * sy,
+    cr * sp * cy + sr * cp * sy,
+    cr * cp * sy - sr * sp * cy,
+  ];
+}
+
+function toEuler([w, x, y, z]: [number, number, number, number]): EulerAngles {
+  const sinPitch = Math.max(-1, Math.min(1, 2 * (w * y - x * z)));
+  return {
+    roll: Math.atan2(2 * (w * x + y * z), 1 - 2 * (x * x + y * y)) * RAD_TO_DEG,
+    pitch: Math.asin(sinPitch) * RAD_TO_DEG,
+    yaw: Math.atan2(2 * (w * z + x * y), 1 - 2 * (y * y + z * z)) * RAD_TO_DEG,
+  };
+}
+
+/**
+ * Scale to unit length, null for a zero vector
+ */
+function normalize(v: [number, number, number]): [number, number, number] | null;
+function normalize(v: [number, number, number, number]): [number, number, number, number] | null;
+function normalize(v: number[]): number[] | null {
+  const norm = Math.sqrt(v.reduce((sum, c) => sum + c * c, 0));
+  if (norm === 0 || !Number.isFinite(norm)) {
+    return null;
+  }
+  return v.map((c) => c / norm);
+}
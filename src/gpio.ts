@@ -0,0 +1,56 @@
+/**
+ * GPIO helpers for LSM6DSR interrupt lines
+ */
+
+import { GPIOInterface, GPIOEdge } from './types';
+
+/**
+ * Mock GPIO line for testing interrupt handling without hardware
+ */
+export class MockGPIO implements GPIOInterface {
+  private value: number;
+  private edge: GPIOEdge = 'both';
+  private callback: ((value: number) => void) | null = null;
+
+  constructor(initialValue: number = 0) {
+    this.value = initialValue ? 1 : 0;
+  }
+
+  read(): number {
+    return this.value;
+  }
+
+  watch(edge: GPIOEdge, callback: (value: number) => void): void {
+    this.edge = edge;
+    this.callback = callback;
+  }
+
+  unwatch(): void {
+    this.callback = null;
+  }
+
+  // Test helper: drive the line level, firing the watcher on a matching edge
+  setValue(value: number): void {
+    const next = value ? 1 : 0;
+    if (next === this.value) return;
+    this.value = next;
+
+    const matches =
+      this.edge === 'both' ||
+      (this.edge === 'rising' && next === 1) ||
+      (this.edge === 'falling' && next === 0);
+    if (matches && this.callback) {
+      this.callback(next);
+    }
+  }
+
+  // Test helper: emit a single pulse (rising then falling for idle-low lines)
+  pulse(): void {
+    this.setValue(this.value ? 0 : 1);
+    this.setValue(this.value ? 0 : 1);
+  }
+
+  isWatched(): boolean {
+    return this.callback !== null;
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Register helpers and constants shared by the LSM6DSR drivers
+ */
+
+import { Registers, EmbeddedRegisters, FSM_MAX_PROGRAMS } from './registers';
+import { Vector3D, InterruptRouting, UCFCommand } from './types';
+
+// The timestamp counter is 32 bits wide
+export const TIMESTAMP_RANGE = 0x100000000;
+
+// FUNC_CFG_ACCESS register bank selection
+export const FUNC_CFG_EMBEDDED = 0x80; // FUNC_CFG_ACCESS bit
+export const FUNC_CFG_SENSOR_HUB = 0x40; // SHUB_REG_ACCESS bit
+
+/**
+ * Set or clear `mask` in `value`; leave it unchanged when `enable` is undefined
+ */
+export function updateBits(value: number, mask: number, enable: boolean | undefined): number {
+  if (enable === undefined) return value;
+  return enable ? value | mask : value & ~mask;
+}
+
+export function averageVectors(vectors: Vector3D[]): Vector3D {
+  const sum = vectors.reduce(
+    (acc, v) => ({ x: acc.x + v.x, y: acc.y + v.y, z: acc.z + v.z }),
+    { x: 0, y: 0, z: 0 }
+  );
+  return { x: sum.x / vectors.length, y: sum.y / vectors.length, z: sum.z / vectors.length };
+}
+
+export function stdDevVectors(vectors: Vector3D[], mean: Vector3D): Vector3D {
+  const sum = vectors.reduce(
+    (acc, v) => ({
+      x: acc.x + (v.x - mean.x) ** 2,
+      y: acc.y + (v.y - mean.y) ** 2,
+      z: acc.z + (v.z - mean.z) ** 2,
+    }),
+    { x: 0, y: 0, z: 0 }
+  );
+  return {
+    x: Math.sqrt(sum.x / vectors.length),
+    y: Math.sqrt(sum.y / vectors.length),
+    z: Math.sqrt(sum.z / vectors.length),
+  };
+}
+
+/**
+ * Block the thread for `ms` milliseconds
+ * Used for every wait of the synchronous driver: register script WAIT steps,
+ * polling for samples and sensor hub transfers, and self-test settling
+ */
+export function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+/**
+ * Resolve after `ms` milliseconds without blocking the event loop
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Replay a register script against a model of the page registers
+ * @returns Final value of each verifiable register, keyed by "page:address"
+ */
+export function simulateUCF(commands: UCFCommand[]): Map<string, number> {
+  const expected = new Map<string, number>();
+  let bank = 0;
+  let pageWrite = false;
+  let page = 0;
+  let pageAddress = 0;
+
+  for (const command of commands) {
+    if (command.type !== 'write') continue;
+    const { register, value } = command;
+
+    if (register === Registers.FUNC_CFG_ACCESS) {
+      bank = value & 0xc0;
+    } else if (bank === FUNC_CFG_EMBEDDED) {
+      if (register === EmbeddedRegisters.PAGE_RW) {
+        pageWrite = (value & 0x40) !== 0;
+      } else if (register === EmbeddedRegisters.PAGE_SEL) {
+        page = (value >> 4) & 0x0f;
+      } else if (register === EmbeddedRegisters.PAGE_ADDRESS) {
+        pageAddress = value;
+      } else if (register === EmbeddedRegisters.PAGE_VALUE) {
+        if (pageWrite) {
+          expected.set(`advanced:${(page << 8) | pageAddress}`, value);
+          pageAddress = (pageAddress + 1) & 0xff;
+        }
+      } else if (
+        register !== EmbeddedRegisters.EMB_FUNC_SRC &&
+        register !== EmbeddedRegisters.EMB_FUNC_INIT_A &&
+        register !== EmbeddedRegisters.EMB_FUNC_INIT_B &&
+        register !== EmbeddedRegisters.FSM_LONG_COUNTER_CLEAR
+      ) {
+        expected.set(`embedded:${register}`, value);
+      }
+    } else if (bank === FUNC_CFG_SENSOR_HUB) {
+      expected.set(`sensorHub:${register}`, value);
+    } else if (register !== Registers.TIMESTAMP2) {
+      expected.set(`main:${register}`, value);
+    }
+  }
+  return expected;
+}
+
+export function validateFSMNumber(fsm: number): void {
+  if (!Number.isInteger(fsm) || fsm < 1 || fsm > FSM_MAX_PROGRAMS) {
+    throw new Error(`Invalid state machine ${fsm}, expected an integer between 1 and ${FSM_MAX_PROGRAMS}`);
+  }
+}
+
+export function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+/**
+ * Combine two routings, a source is routed if it is routed on either pin
+ */
+export function mergeRouting(a: InterruptRouting, b: InterruptRouting): InterruptRouting {
+  const merged: InterruptRouting = { ...a };
+  for (const key of Object.keys(b) as (keyof InterruptRouting)[]) {
+    merged[key] = a[key] === true || b[key] === true;
+  }
+  return merged;
+}
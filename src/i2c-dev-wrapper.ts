@@ -0,0 +1,195 @@
+/**
+ * Linux i2c-dev wrapper for LSM6DSR
+ * Opens /dev/i2c-<busNumber> directly through i2c-bus instead of relying on
+ * raspi-i2c's board detection
+ *
+ * The slave address is selected with I2C_SLAVE before each transfer, which
+ * then goes through the SMBus I2C block commands (I2C_SMBUS ioctl). A block read
+ * writes the register address and reads the data after a repeated start. SMBus
+ * limits blocks to 32 bytes, so longer transfers are split into one
+ * transaction per block, each starting at its own register address.
+ */
+
+import * as fs from 'fs';
+import type { I2CBus } from 'i2c-bus';
+import { RegisterInterface, AsyncRegisterInterface } from './types';
+
+// Largest SMBus I2C block transfer
+const I2C_BLOCK_MAX = 32;
+
+// errno codes reported by bus drivers when the address is not acknowledged
+const NACK_CODES = ['ENXIO', 'EREMOTEIO'];
+
+/**
+ * Open /dev/i2c-<busNumber>, failing with a readable error when it is missing
+ */
+function openI2CDevice(busNumber: number): I2CBus {
+  const path = devicePath(busNumber);
+  if (!fs.existsSync(path)) {
+    const available = fs.existsSync('/dev')
+      ? fs.readdirSync('/dev').filter((name) => /^i2c-\d+$/.test(name)).map((name) => `/dev/${name}`)
+      : [];
+    throw new Error(
+      `I2C device ${path} not found. Enable the bus (e.g. raspi-config or dtparam=i2c_arm=on) ` +
+      `or check i2cBusNumber (available: ${available.length > 0 ? available.join(', ') : 'none'})`
+    );
+  }
+
+  let i2c: typeof import('i2c-bus');
+  try {
+    i2c = require('i2c-bus');
+  } catch (error) {
+    throw new Error(`i2c-dev transport requires the i2c-bus package (npm install i2c-bus): ${(error as Error).message}`);
+  }
+
+  try {
+    return i2c.openSync(busNumber);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'EACCES') {
+      throw new Error(`Permission denied opening ${path}, add the user to the i2c group`);
+    }
+    throw error;
+  }
+}
+
+function devicePath(busNumber: number): string {
+  return `/dev/i2c-${busNumber}`;
+}
+
+/**
+ * Replace address NACK errors with one naming the address and bus
+ */
+function describeError(error: unknown, busNumber: number, address: number): Error {
+  const code = (error as NodeJS.ErrnoException)?.code;
+  if (code !== undefined && NACK_CODES.includes(code)) {
+    return new Error(
+      `No device acknowledged address 0x${address.toString(16)} on ${devicePath(busNumber)} (${code}), ` +
+      `check the wiring and i2cAddress`
+    );
+  }
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+export class I2CDevWrapper implements RegisterInterface {
+  private bus: I2CBus;
+  private busNumber: number;
+  private address: number;
+
+  /**
+   * @param busNumber - I2C bus (/dev/i2c-<busNumber>)
+   * @param address - 7-bit slave address
+   */
+  constructor(busNumber: number, address: number) {
+    this.bus = openI2CDevice(busNumber);
+    this.busNumber = busNumber;
+    this.address = address;
+  }
+
+  readByte(register: number): number {
+    return this.readBlock(register, 1)[0];
+  }
+
+  readWord(register: number): number {
+    return this.readBlock(register, 2).readUInt16LE(0);
+  }
+
+  readBlock(register: number, length: number): Buffer {
+    const buffer = Buffer.alloc(length);
+    this.transfer(() => {
+      for (let offset = 0; offset < length; offset += I2C_BLOCK_MAX) {
+        const chunk = Math.min(I2C_BLOCK_MAX, length - offset);
+        this.bus.readI2cBlockSync(this.address, register + offset, chunk, buffer.subarray(offset, offset + chunk));
+      }
+    });
+    return buffer;
+  }
+
+  writeByte(register: number, value: number): void {
+    this.transfer(() => this.bus.writeByteSync(this.address, register, value & 0xff));
+  }
+
+  writeWord(register: number, value: number): void {
+    this.writeBlock(register, Buffer.from([value & 0xff, (value >> 8) & 0xff]));
+  }
+
+  writeBlock(register: number, buffer: Buffer): void {
+    this.transfer(() => {
+      for (let offset = 0; offset < buffer.length; offset += I2C_BLOCK_MAX) {
+        const chunk = buffer.subarray(offset, offset + I2C_BLOCK_MAX);
+        this.bus.writeI2cBlockSync(this.address, register + offset, chunk.length, chunk);
+      }
+    });
+  }
+
+  close(): void {
+    this.bus.closeSync();
+  }
+
+  private transfer(fn: () => void): void {
+    try {
+      fn();
+    } catch (error) {
+      throw describeError(error, this.busNumber, this.address);
+    }
+  }
+}
+
+/**
+ * Asynchronous i2c-dev wrapper using i2c-bus's callback transfers
+ */
+export class AsyncI2CDevWrapper implements AsyncRegisterInterface {
+  private bus: I2CBus;
+  private busNumber: number;
+  private address: number;
+
+  constructor(busNumber: number, address: number) {
+    this.bus = openI2CDevice(busNumber);
+    this.busNumber = busNumber;
+    this.address = address;
+  }
+
+  async readByte(register: number): Promise<number> {
+    return (await this.readBlock(register, 1))[0];
+  }
+
+  async readWord(register: number): Promise<number> {
+    return (await this.readBlock(register, 2)).readUInt16LE(0);
+  }
+
+  async readBlock(register: number, length: number): Promise<Buffer> {
+    const buffer = Buffer.alloc(length);
+    for (let offset = 0; offset < length; offset += I2C_BLOCK_MAX) {
+      const chunk = Math.min(I2C_BLOCK_MAX, length - offset);
+      const target = buffer.subarray(offset, offset + chunk);
+      await this.transfer((done) => this.bus.readI2cBlock(this.address, register + offset, chunk, target, done));
+    }
+    return buffer;
+  }
+
+  writeByte(register: number, value: number): Promise<void> {
+    return this.transfer((done) => this.bus.writeByte(this.address, register, value & 0xff, done));
+  }
+
+  writeWord(register: number, value: number): Promise<void> {
+    return this.writeBlock(register, Buffer.from([value & 0xff, (value >> 8) & 0xff]));
+  }
+
+  async writeBlock(register: number, buffer: Buffer): Promise<void> {
+    for (let offset = 0; offset < buffer.length; offset += I2C_BLOCK_MAX) {
+      const chunk = buffer.subarray(offset, offset + I2C_BLOCK_MAX);
+      await this.transfer((done) => this.bus.writeI2cBlock(this.address, register + offset, chunk.length, chunk, done));
+    }
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.bus.close((err) => (err ? reject(err) : resolve()));
+    });
+  }
+
+  private transfer(fn: (done: (err: Error | null) => void) => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+      fn((err) => (err ? reject(describeError(err, this.busNumber, this.address)) : resolve()));
+    });
+  }
+}
@@ -3,8 +3,8 @@
  * Uses raspi-i2c for Raspberry Pi I2C communication
  */
 
-import { I2C } from 'raspi-i2c';
-import { I2CInterface } from './types';
+import type { I2C } from 'raspi-i2c';
+import { I2CInterface, AsyncI2CInterface } from './types';
 
 export class I2CWrapper implements I2CInterface {
   private i2c: I2C;
@@ -13,7 +13,7 @@ export class I2CWrapper implements I2CInterface {
   constructor(busNumber: number, address: number) {
     // raspi-i2c automatically detects the correct bus based on board revision
     // busNumber parameter is kept for API compatibility but not used
-    this.i2c = new I2C();
+    this.i2c = openRaspiI2C();
     this.address = address;
   }
 
@@ -46,6 +46,119 @@ export class I2CWrapper implements I2CInterface {
   }
 }
 
+/**
+ * Asynchronous I2C wrapper using raspi-i2c's callback methods
+ * Transfers are queued by the bus driver, so the event loop stays free while they run
+ */
+export class AsyncI2CWrapper implements AsyncI2CInterface {
+  private i2c: I2C;
+  private address: number;
+
+  constructor(busNumber: number, address: number) {
+    // raspi-i2c automatically detects the correct bus based on board revision
+    // busNumber parameter is kept for API compatibility but not used
+    this.i2c = openRaspiI2C();
+    this.address = address;
+  }
+
+  readByte(register: number): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.i2c.readByte(this.address, register, (err, data) => {
+        if (err) reject(toError(err));
+        else resolve(data as number);
+      });
+    });
+  }
+
+  readWord(register: number): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.i2c.readWord(this.address, register, (err, data) => {
+        if (err) reject(toError(err));
+        else resolve(data as number);
+      });
+    });
+  }
+
+  readBlock(register: number, length: number): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      this.i2c.read(this.address, register, length, (err, data) => {
+        if (err) reject(toError(err));
+        else resolve(data as Buffer);
+      });
+    });
+  }
+
+  writeByte(register: number, value: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.i2c.writeByte(this.address, register, value, (err) => {
+        if (err) reject(toError(err));
+        else resolve();
+      });
+    });
+  }
+
+  writeWord(register: number, value: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.i2c.writeWord(this.address, register, value, (err) => {
+        if (err) reject(toError(err));
+        else resolve();
+      });
+    });
+  }
+
+  writeBlock(register: number, buffer: Buffer): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.i2c.write(this.address, register, buffer, (err) => {
+        if (err) reject(toError(err));
+        else resolve();
+      });
+    });
+  }
+
+  async close(): Promise<void> {
+    this.i2c.destroy();
+  }
+}
+
+/**
+ * Expose a synchronous I2C interface (e.g. MockI2CWrapper) as an AsyncI2CInterface
+ */
+export class AsyncI2CAdapter implements AsyncI2CInterface {
+  private i2c: I2CInterface;
+
+  constructor(i2c: I2CInterface) {
+    this.i2c = i2c;
+  }
+
+  async readByte(register: number): Promise<number> {
+    return this.i2c.readByte(register);
+  }
+
+  async readWord(register: number): Promise<number> {
+    return this.i2c.readWord(register);
+  }
+
+  async readBlock(register: number, length: number): Promise<Buffer> {
+    return this.i2c.readBlock(register, length);
+  }
+
+  async writeByte(register: number, value: number): Promise<void> {
+    this.i2c.writeByte(register, value);
+  }
+
+  async writeWord(register: number, value: number): Promise<void> {
+    this.i2c.writeWord(register, value);
+  }
+
+  async writeBlock(register: number, buffer: Buffer): Promise<void> {
+    this.i2c.writeBlock(register, buffer);
+  }
+
+  async close(): Promise<void> {
+    this.i2c.close();
+  }
+}
+
 /**
  * Mock I2C interface for testing without hardware
  */
@@ -123,3 +236,21 @@ export class MockI2CWrapper implements I2CInterface {
     this.registers.set(0x1e, status);
   }
 }
+
+/**
+ * Open the Raspberry Pi I2C bus
+ * raspi-i2c is loaded here so the emulator and other buses work without its native bindings
+ */
+function openRaspiI2C(): I2C {
+  let raspi: typeof import('raspi-i2c');
+  try {
+    raspi = require('raspi-i2c');
+  } catch (error) {
+    throw new Error(`I2C transport requires the raspi-i2c package: ${(error as Error).message}`);
+  }
+  return new raspi.I2C();
+}
+
+function toError(err: Error | string): Error {
+  return err instanceof Error ? err : new Error(err);
+}
@@ -23,21 +23,97 @@
 
 // Main sensor class
 export { LSM6DSR } from './lsm6dsr';
+export { LSM6DSRAsync } from './lsm6dsr-async';
+export { LSM6DSRCore } from './lsm6dsr-core';
 
 // I2C utilities
-export { I2CWrapper, MockI2CWrapper } from './i2c-wrapper';
+export { I2CWrapper, AsyncI2CWrapper, AsyncI2CAdapter, MockI2CWrapper } from './i2c-wrapper';
+export { I2CDevWrapper, AsyncI2CDevWrapper } from './i2c-dev-wrapper';
+
+// SPI utilities
+export { SPIWrapper, AsyncSPIWrapper, MockSPIDevice } from './spi-wrapper';
+
+// Bus recording and replay
+export {
+  RecordingI2CWrapper,
+  AsyncRecordingI2CWrapper,
+  ReplayI2CWrapper,
+  serializeBusRecording,
+  parseBusRecording,
+} from './recording';
+
+// Device emulator
+export { LSM6DSREmulator } from './emulator';
+
+// GPIO utilities
+export { MockGPIO } from './gpio';
+
+// Configuration script utilities
+export { parseUCF } from './ucf';
+
+// Calibration utilities
+export {
+  SIX_POSITION_ORDER,
+  gravityVector,
+  solveAccelCalibration,
+  applyAccelCalibration,
+  parseAccelCalibration,
+} from './calibration';
+
+// Sensor fusion
+export { AHRS } from './fusion';
+
+// Mounting orientation
+export { MOUNTING_ORIENTATIONS, mountingMatrix } from './mounting';
+
+// Unit conversion
+export { STANDARD_GRAVITY, convertAccel, convertGyro, convertTemperature } from './units';
 
 // Register definitions
 export {
   Registers,
+  EmbeddedRegisters,
+  EmbeddedAdvancedRegisters,
+  SensorHubRegisters,
   LSM6DSR_I2C_ADD_L,
   LSM6DSR_I2C_ADD_H,
   LSM6DSR_ID,
+  SPI_READ_BIT,
+  SPI_MODE,
+  SPI_MAX_SPEED_HZ,
   AccelODR,
   AccelFullScale,
   GyroODR,
   GyroFullScale,
   FIFOMode,
+  FIFOAccelBDR,
+  FIFOGyroBDR,
+  FIFOTempBDR,
+  FIFOTimestampDecimation,
+  FIFOTag,
+  FIFO_MAX_SAMPLES,
+  FIFO_MAX_WATERMARK,
+  InterruptPin,
+  InterruptPolarity,
+  InterruptOutputMode,
+  TapMode,
+  WakeUpFilter,
+  InactivityMode,
+  FreeFallThreshold,
+  SixDThreshold,
+  FSMODR,
+  FSM_MAX_PROGRAMS,
+  FSM_START_ADDRESS,
+  SensorHubODR,
+  SENSOR_HUB_MAX_SLAVES,
+  SENSOR_HUB_DATA_LENGTH,
+  AccelOffsetWeight,
+  AccelSelfTest,
+  GyroSelfTest,
+  ACCEL_SELF_TEST_MIN_MG,
+  ACCEL_SELF_TEST_MAX_MG,
+  GYRO_SELF_TEST_MIN_MDPS,
+  GYRO_SELF_TEST_MAX_MDPS,
   AccelOperatingMode,
   GyroOperatingMode,
   AccelSensitivity,
@@ -46,16 +122,115 @@ export {
   GyroODRHz,
   AccelFSValue,
   GyroFSValue,
+  FreeFallThresholdMg,
+  AccelOffsetWeightMg,
+  TIMESTAMP_RESOLUTION_US,
 } from './registers';
 
 // Type definitions
 export {
   Vector3D,
   RawVector3D,
+  AccelUnit,
+  GyroUnit,
+  TemperatureUnit,
+  UnitSystem,
+  DefaultUnits,
+  OutputUnits,
+  ResolveUnits,
+  Measured,
+  AccelVector,
+  GyroVector,
+  Temperature,
   LSM6DSRConfig,
   SensorStatus,
   IMUData,
+  IMUStreamOptions,
+  Transport,
+  RegisterInterface,
+  AsyncRegisterInterface,
+  BusMode,
+  MaybeAsync,
   I2CInterface,
+  AsyncI2CInterface,
+  SPITransfer,
+  SPIDeviceInterface,
+  FIFOConfig,
+  FIFOStatus,
+  FIFOSample,
+  FIFOAccelSample,
+  FIFOGyroSample,
+  FIFOTemperatureSample,
+  FIFOTimestampSample,
+  FIFOSensorHubSample,
+  FIFORawSample,
+  InterruptRouting,
+  InterruptPinConfig,
+  GPIOInterface,
+  GPIOEdge,
+  Axis,
+  TapConfig,
+  TapEvent,
+  WakeUpConfig,
+  ActivityConfig,
+  ActivityEvent,
+  FreeFallConfig,
+  FreeFallEvent,
+  Orientation,
+  OrientationConfig,
+  OrientationEvent,
+  PedometerConfig,
+  StepEvent,
+  EmbeddedInterruptRouting,
+  EmbeddedFunctionStatus,
+  MotionEvent,
+  FSMConfig,
+  FSMEvent,
+  FSMLongCounterEvent,
+  UCFCommand,
+  UCFMismatch,
+  SensorHubSlaveConfig,
+  SensorHubConfig,
+  SensorHubStatus,
+  AccelOffsetCalibrationOptions,
+  GyroBiasCalibrationOptions,
+  GyroBiasCalibration,
+  GyroBiasTrackingOptions,
+  Matrix3,
+  MountingOrientation,
+  Mounting,
+  AccelCalibration,
+  AccelCalibrationPosition,
+  SixPositionCalibrationOptions,
+  SelfTestOptions,
+  SelfTestAxisResult,
+  SelfTestSensorResult,
+  SelfTestReport,
+  Quaternion,
+  EulerAngles,
+  FusionAlgorithm,
+  FusionOptions,
+  AttitudeEstimate,
+  MotionSample,
+  MotionTracePoint,
+  MotionProfile,
+  EmulatorOptions,
+  BusOperation,
+  BusTransaction,
+  InterruptSources,
+  LSM6DSREvents,
   DataReadyCallback,
   ErrorCallback,
+  FIFOEventCallback,
+  InterruptCallback,
+  TapCallback,
+  ActivityCallback,
+  FreeFallCallback,
+  OrientationCallback,
+  StepCallback,
+  MotionCallback,
+  FSMCallback,
+  FSMLongCounterCallback,
+  SensorHubCallback,
+  CalibrationPositionPrompt,
 } from './types';
@@ -0,0 +1,113 @@
+/**
+ * LSM6DSR Sensor Class, asynchronous variant
+ * Same feature set as LSM6DSR, with every bus transfer returning a Promise
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+import { LSM6DSR_I2C_ADD_H } from './registers';
+import { LSM6DSRConfig, OutputUnits, AsyncRegisterInterface } from './types';
+import { AsyncI2CWrapper } from './i2c-wrapper';
+import { AsyncI2CDevWrapper } from './i2c-dev-wrapper';
+import { AsyncSPIWrapper } from './spi-wrapper';
+import { LSM6DSRCore, Steps } from './lsm6dsr-core';
+import { sleep } from './helpers';
+
+// Operation currently holding the bus, used to let nested calls through
+const operationContext = new AsyncLocalStorage<{ owner: object; active: boolean }>();
+
+/**
+ * The type parameter records the units selected with `config.units`, so
+ * readings carry their unit in their type
+ */
+export class LSM6DSRAsync<O extends OutputUnits = {}> extends LSM6DSRCore<'async', O> {
+  // Tail of the operation queue
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Create a new asynchronous LSM6DSR sensor instance
+   * @param config - Configuration options
+   * @param bus - Async register interface to use instead of opening the bus (see withBus)
+   */
+  constructor(config: LSM6DSRConfig<O> = {}, bus?: AsyncRegisterInterface) {
+    super(config, bus ?? openBus(config));
+  }
+
+  /**
+   * Create instance with custom async I2C interface (e.g. AsyncI2CAdapter around MockI2CWrapper)
+   */
+  static withI2C<O extends OutputUnits = {}>(
+    i2c: AsyncRegisterInterface,
+    config: Omit<LSM6DSRConfig<O>, 'i2cBusNumber'> = {}
+  ): LSM6DSRAsync<O> {
+    return new LSM6DSRAsync(config, i2c);
+  }
+
+  /**
+   * Create instance with a custom async register interface on any transport
+   * Set `transport: 'spi'` for SPI buses so begin() disables the I2C interface
+   */
+  static withBus<O extends OutputUnits = {}>(bus: AsyncRegisterInterface, config: LSM6DSRConfig<O> = {}): LSM6DSRAsync<O> {
+    return new LSM6DSRAsync(config, bus);
+  }
+
+  /**
+   * Run an operation exclusively: concurrent calls on the same instance are
+   * queued so read-modify-write sequences and register bank switches do not
+   * interleave on the bus. Calls made from inside a running operation go straight through.
+   */
+  protected run<T>(body: (this: this) => Steps<T>): Promise<T> {
+    if (this.inOperation()) {
+      return this.resume(body.call(this));
+    }
+
+    const run = () => {
+      const operation = { owner: this, active: true };
+      return operationContext.run(operation, () => this.resume(body.call(this))).finally(() => {
+        operation.active = false;
+        this.flushInterrupts();
+      });
+    };
+    const result = this.queue.then(run, run);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  protected delay(ms: number): Promise<void> {
+    return sleep(ms);
+  }
+
+  protected inOperation(): boolean {
+    const context = operationContext.getStore();
+    return context?.owner === this && context.active;
+  }
+
+  /**
+   * Drive an operation, resuming it with each settled bus result
+   */
+  private async resume<T>(steps: Steps<T>): Promise<T> {
+    let next = steps.next();
+    while (!next.done) {
+      let value: unknown;
+      try {
+        value = await next.value;
+      } catch (error) {
+        next = steps.throw(error);
+        continue;
+      }
+      next = steps.next(value);
+    }
+    return next.value;
+  }
+}
+
+function openBus(config: LSM6DSRConfig<OutputUnits>): AsyncRegisterInterface {
+  const address = config.i2cAddress ?? LSM6DSR_I2C_ADD_H;
+  if (config.transport === 'spi') {
+    return new AsyncSPIWrapper(config.spiBusNumber ?? 0, config.spiChipSelect ?? 0, config.spiSpeedHz);
+  }
+  if (config.i2cBusNumber !== undefined) {
+    return new AsyncI2CDevWrapper(config.i2cBusNumber, address);
+  }
+  return new AsyncI2CWrapper(1, address);
+}
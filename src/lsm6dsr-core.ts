@@ -0,0 +1,3221 @@
+/**
+ * LSM6DSR register logic shared by the synchronous and asynchronous drivers
+ *
+ * Bus access is written once as generators that yield every bus result. The
+ * LSM6DSR driver resumes them with the value right away, LSM6DSRAsync once the
+ * Promise settles, so both drivers issue exactly the same transfers:
+ *
+ * ```
+ * const ctrl3 = yield* wait(this.bus.readByte(Registers.CTRL3_C));
+ * ```
+ */
+
+import { EventEmitter } from 'events';
+import { Readable } from 'stream';
+
+import {
+  Registers,
+  EmbeddedRegisters,
+  EmbeddedAdvancedRegisters,
+  SensorHubRegisters,
+  LSM6DSR_I2C_ADD_H,
+  LSM6DSR_ID,
+  AccelODR,
+  AccelFullScale,
+  GyroODR,
+  GyroFullScale,
+  AccelSensitivity,
+  GyroSensitivity,
+  AccelODRHz,
+  GyroODRHz,
+  AccelFSValue,
+  GyroFSValue,
+  FIFOMode,
+  FIFOAccelBDR,
+  FIFOGyroBDR,
+  FIFOTempBDR,
+  FIFOTimestampDecimation,
+  FIFOTag,
+  FIFO_MAX_WATERMARK,
+  TIMESTAMP_RESOLUTION_US,
+  InterruptPin,
+  InterruptPolarity,
+  InterruptOutputMode,
+  TapMode,
+  WakeUpFilter,
+  InactivityMode,
+  FSMODR,
+  FSM_MAX_PROGRAMS,
+  FSM_START_ADDRESS,
+  SensorHubODR,
+  SENSOR_HUB_MAX_SLAVES,
+  SENSOR_HUB_DATA_LENGTH,
+  AccelOffsetWeight,
+  AccelOffsetWeightMg,
+  AccelSelfTest,
+  GyroSelfTest,
+  ACCEL_SELF_TEST_MIN_MG,
+  ACCEL_SELF_TEST_MAX_MG,
+  GYRO_SELF_TEST_MIN_MDPS,
+  GYRO_SELF_TEST_MAX_MDPS,
+  AccelOperatingMode,
+  GyroOperatingMode,
+} from './registers';
+
+import {
+  Vector3D,
+  RawVector3D,
+  LSM6DSRConfig,
+  SensorStatus,
+  IMUData,
+  IMUStreamOptions,
+  RegisterInterface,
+  AsyncRegisterInterface,
+  BusMode,
+  MaybeAsync,
+  Transport,
+  FIFOConfig,
+  FIFOStatus,
+  FIFOSample,
+  InterruptRouting,
+  InterruptPinConfig,
+  GPIOInterface,
+  TapConfig,
+  TapEvent,
+  Axis,
+  WakeUpConfig,
+  ActivityConfig,
+  ActivityEvent,
+  FreeFallConfig,
+  FreeFallEvent,
+  Orientation,
+  OrientationConfig,
+  PedometerConfig,
+  EmbeddedInterruptRouting,
+  EmbeddedFunctionStatus,
+  MotionEvent,
+  FSMConfig,
+  UCFCommand,
+  UCFMismatch,
+  SensorHubConfig,
+  SensorHubSlaveConfig,
+  SensorHubStatus,
+  AccelOffsetCalibrationOptions,
+  GyroBiasCalibrationOptions,
+  GyroBiasCalibration,
+  GyroBiasTrackingOptions,
+  AccelCalibration,
+  AccelCalibrationPosition,
+  SixPositionCalibrationOptions,
+  CalibrationPositionPrompt,
+  SelfTestOptions,
+  SelfTestSensorResult,
+  SelfTestReport,
+  InterruptSources,
+  LSM6DSREvents,
+  FusionOptions,
+  AttitudeEstimate,
+  AccelUnit,
+  GyroUnit,
+  TemperatureUnit,
+  OutputUnits,
+  UnitSystem,
+  ResolveUnits,
+  AccelVector,
+  GyroVector,
+  Temperature,
+  Matrix3,
+  Mounting,
+} from './types';
+
+import { parseUCF } from './ucf';
+import { imuStream } from './stream';
+import { AHRS } from './fusion';
+import {
+  mountingMatrix,
+  resolveMounting,
+  toDeviceFrame,
+  toSensorFrame,
+  toDeviceAxis,
+  toSensorAxis,
+  toDeviceOrientation,
+} from './mounting';
+import {
+  DEFAULT_UNITS,
+  resolveUnits,
+  convertAccel,
+  convertGyro,
+  convertTemperature,
+  convertIMUData,
+  convertAttitude,
+} from './units';
+import {
+  SIX_POSITION_ORDER,
+  gravityVector,
+  solveAccelCalibration,
+  applyAccelCalibration,
+  parseAccelCalibration,
+} from './calibration';
+import {
+  TIMESTAMP_RANGE,
+  FUNC_CFG_EMBEDDED,
+  FUNC_CFG_SENSOR_HUB,
+  updateBits,
+  averageVectors,
+  stdDevVectors,
+  simulateUCF,
+  validateFSMNumber,
+  clamp,
+  mergeRouting,
+} from './helpers';
+
+// Generator driven by the bus mode: yields bus results and is resumed with their value
+export type Steps<T> = Generator<unknown, T, unknown>;
+
+/**
+ * Wait for a bus result or the result of another public method
+ */
+export function* wait<T>(value: T | PromiseLike<T>): Steps<T> {
+  return (yield value) as T;
+}
+
+export interface LSM6DSRCore<M extends BusMode, O extends OutputUnits = {}> {
+  on<E extends keyof LSM6DSREvents>(event: E, listener: LSM6DSREvents<ResolveUnits<O>>[E]): this;
+  once<E extends keyof LSM6DSREvents>(event: E, listener: LSM6DSREvents<ResolveUnits<O>>[E]): this;
+  off<E extends keyof LSM6DSREvents>(event: E, listener: LSM6DSREvents<ResolveUnits<O>>[E]): this;
+  emit<E extends keyof LSM6DSREvents>(event: E, ...args: Parameters<LSM6DSREvents<ResolveUnits<O>>[E]>): boolean;
+}
+
+/**
+ * `M` selects plain return values ('sync') or Promises ('async'); `O` records
+ * the units selected with `config.units`, so readings carry their unit in their type
+ */
+export abstract class LSM6DSRCore<M extends BusMode, O extends OutputUnits = {}> extends EventEmitter {
+  protected bus: RegisterInterface | AsyncRegisterInterface;
+  private transport: Transport;
+
+  // Current settings
+  private accelODR: AccelODR = AccelODR.Hz_104;
+  private accelFS: AccelFullScale = AccelFullScale.G_2;
+  private gyroODR: GyroODR = GyroODR.Hz_104;
+  private gyroFS: GyroFullScale = GyroFullScale.DPS_2000;
+
+  // Units of readings, FIFO samples and events
+  private units: ResolveUnits<O>;
+
+  // Rotation from the sensor frame to the device frame, null when aligned
+  private mounting: Matrix3 | null = null;
+
+  // Accelerometer user offset applied by begin() (mg)
+  private accelOffset: Vector3D | null = null;
+
+  // Six-position accelerometer calibration applied in software
+  private accelCalibration: AccelCalibration | null = null;
+
+  // Software gyroscope bias per full scale (mdps) and continuous tracking state
+  private gyroBias: Map<GyroFullScale, Vector3D> = new Map();
+  private gyroBiasTracking: Required<GyroBiasTrackingOptions> | null = null;
+  private gyroTrackingWindow: Vector3D[] = [];
+
+  // Enabled state
+  private accelEnabled: boolean = false;
+  private gyroEnabled: boolean = false;
+
+  // Timestamp state
+  private timestampEnabled: boolean = false;
+  private timestampResolutionUs: number = TIMESTAMP_RESOLUTION_US;
+  private lastTimestampTicks: number = 0;
+  private timestampWraps: number = 0;
+
+  // Interrupt state
+  private interruptPolarity: InterruptPolarity = InterruptPolarity.ACTIVE_HIGH;
+  private allInterruptsOnInt1: boolean = false;
+  private interruptRouting: Map<InterruptPin, InterruptRouting> = new Map();
+  private interruptLines: Map<InterruptPin, GPIOInterface> = new Map();
+
+  // Pins whose edge arrived while an operation held the bus
+  private pendingInterrupts: Set<InterruptPin> = new Set();
+
+  // Event detection settings, re-applied when accelerometer ODR or full scale change
+  private tapConfig: TapConfig | null = null;
+  private wakeUpConfig: WakeUpConfig | null = null;
+  private activityConfig: ActivityConfig | null = null;
+  private freeFallConfig: FreeFallConfig | null = null;
+
+  // Register bank currently selected in FUNC_CFG_ACCESS (0 = main page)
+  private registerBank: number = 0;
+
+  // Sensor hub slaves, used to split SENSOR_HUB_x data
+  private sensorHubSlaves: SensorHubSlaveConfig[] = [];
+
+  // Last orientation reported by the 6D function
+  private lastOrientation: Orientation | null = null;
+
+  // Stop callbacks of open sample streams
+  private streamStops: Set<() => void> = new Set();
+
+  // Sensor fusion fed by readIMU() and streams; sample rate null follows the gyroscope ODR
+  private fusion: AHRS | null = null;
+  private fusionSampleRate: number | null = null;
+
+  /**
+   * @param config - Configuration options
+   * @param bus - Register interface opened by the driver
+   */
+  protected constructor(config: LSM6DSRConfig<O>, bus: RegisterInterface | AsyncRegisterInterface) {
+    super();
+    this.bus = bus;
+    this.units = resolveUnits(config.units);
+    this.mounting = config.mounting !== undefined ? resolveMounting(config.mounting) : null;
+    this.transport = config.transport ?? 'i2c';
+
+    // Store initial settings
+    if (config.accelODR !== undefined) this.accelODR = config.accelODR;
+    if (config.accelFullScale !== undefined) this.accelFS = config.accelFullScale;
+    if (config.gyroODR !== undefined) this.gyroODR = config.gyroODR;
+    if (config.gyroFullScale !== undefined) this.gyroFS = config.gyroFullScale;
+    if (config.accelOffset !== undefined) this.accelOffset = { ...config.accelOffset };
+    if (config.gyroBias !== undefined) this.gyroBias.set(this.gyroFS, { ...config.gyroBias });
+    if (config.accelCalibration !== undefined) this.setAccelCalibration(config.accelCalibration);
+  }
+
+  /**
+   * Run a bus operation, resuming `body` with every value it yields
+   * Calls made from inside a running operation are part of that operation
+   */
+  protected abstract run<T>(body: (this: this) => Steps<T>): MaybeAsync<M, T>;
+
+  /**
+   * Pause between polls of the sensor
+   */
+  protected abstract delay(ms: number): MaybeAsync<M, void>;
+
+  /**
+   * Whether the caller is inside a running operation
+   * Interrupt edges raised there (e.g. at the end of a bus transfer) are handled
+   * by flushInterrupts() once the operation finishes
+   */
+  protected abstract inOperation(): boolean;
+
+  /**
+   * Initialize the sensor
+   * @returns true if initialization successful
+   */
+  begin(): MaybeAsync<M, boolean> {
+    return this.run(function* () {
+      // Check device ID
+      const whoAmI = yield* wait(this.readWhoAmI());
+      if (whoAmI !== LSM6DSR_ID) {
+        throw new Error(`LSM6DSR not found. WHO_AM_I returned 0x${whoAmI.toString(16)}, expected 0x${LSM6DSR_ID.toString(16)}`);
+      }
+
+      // Disable I3C protocol
+      yield* this.disableI3C();
+
+      // On SPI, disable the I2C interface so SPI traffic is never decoded as I2C
+      if (this.transport === 'spi') {
+        yield* this.disableI2C();
+      }
+
+      // Enable register address auto-increment
+      yield* wait(this.setAutoIncrement(true));
+
+      // Enable Block Data Update (BDU)
+      yield* wait(this.setBlockDataUpdate(true));
+
+      // Set FIFO to bypass mode
+      yield* wait(this.setFIFOMode(FIFOMode.BYPASS));
+
+      // Set accelerometer: powered down, but remember ODR for when enabled
+      yield* this.writeAccelConfig(AccelODR.OFF, this.accelFS);
+
+      // Set gyroscope: powered down, but remember ODR for when enabled
+      yield* this.writeGyroConfig(GyroODR.OFF, this.gyroFS);
+
+      this.accelEnabled = false;
+      this.gyroEnabled = false;
+
+      // Restore stored accelerometer offset calibration
+      if (this.accelOffset) {
+        yield* wait(this.setAccelOffset(this.accelOffset));
+      }
+
+      return true;
+    });
+  }
+
+  /**
+   * Read the WHO_AM_I register
+   */
+  readWhoAmI(): MaybeAsync<M, number> {
+    return this.run(function* () {
+      return yield* wait(this.bus.readByte(Registers.WHO_AM_I));
+    });
+  }
+
+  // ==================== Accelerometer Methods ====================
+
+  /**
+   * Enable the accelerometer
+   */
+  enableAccel(): MaybeAsync<M, void> {
+    return this.run(function* () {
+      yield* this.writeAccelConfig(this.accelODR, this.accelFS);
+      this.accelEnabled = true;
+    });
+  }
+
+  /**
+   * Disable the accelerometer
+   */
+  disableAccel(): MaybeAsync<M, void> {
+    return this.run(function* () {
+      yield* this.writeAccelConfig(AccelODR.OFF, this.accelFS);
+      this.accelEnabled = false;
+    });
+  }
+
+  /**
+   * Check if accelerometer is enabled
+   */
+  isAccelEnabled(): boolean {
+    return this.accelEnabled;
+  }
+
+  /**
+   * Set accelerometer output data rate
+   * @param odr - Output data rate
+   */
+  setAccelODR(odr: AccelODR): MaybeAsync<M, void> {
+    return this.run(function* () {
+      this.accelODR = odr;
+      if (this.accelEnabled) {
+        yield* this.writeAccelConfig(odr, this.accelFS);
+      }
+      yield* this.rescaleEventDetection();
+    });
+  }
+
+  /**
+   * Get accelerometer output data rate in Hz
+   */
+  getAccelODR(): number {
+    return AccelODRHz[this.accelODR];
+  }
+
+  /**
+   * Set accelerometer full scale
+   * @param fs - Full scale setting
+   */
+  setAccelFullScale(fs: AccelFullScale): MaybeAsync<M, void> {
+    return this.run(function* () {
+      this.accelFS = fs;
+      if (this.accelEnabled) {
+        yield* this.writeAccelConfig(this.accelODR, fs);
+      }
+      yield* this.rescaleEventDetection();
+    });
+  }
+
+  /**
+   * Get accelerometer full scale value in g
+   */
+  getAccelFullScale(): number {
+    return AccelFSValue[this.accelFS];
+  }
+
+  /**
+   * Get accelerometer sensitivity (mg/LSB)
+   */
+  getAccelSensitivity(): number {
+    return AccelSensitivity[this.accelFS];
+  }
+
+  /**
+   * Read raw accelerometer data
+   */
+  readRawAccel(): MaybeAsync<M, RawVector3D> {
+    return this.run(function* () {
+      const buffer = yield* wait(this.bus.readBlock(Registers.OUTX_L_A, 6));
+      return {
+        x: buffer.readInt16LE(0),
+        y: buffer.readInt16LE(2),
+        z: buffer.readInt16LE(4),
+      };
+    });
+  }
+
+  /**
+   * Read accelerometer data in the configured unit (default: mg)
+   * The six-position calibration is applied if set (see calibrateAccelSixPosition)
+   * @param unit - Unit for this reading only
+   */
+  readAccel(): MaybeAsync<M, AccelVector<ResolveUnits<O>['accel']>>;
+  readAccel<A extends AccelUnit>(unit: A): MaybeAsync<M, AccelVector<A>>;
+  readAccel(unit?: AccelUnit): MaybeAsync<M, AccelVector<AccelUnit>> {
+    return this.run(function* () {
+      const mg = toDeviceFrame(this.mounting, this.correctAccel(yield* this.readUncorrectedAccel()));
+      return convertAccel(mg, unit ?? this.units.accel);
+    });
+  }
+
+  /**
+   * Read accelerometer data in g (gravities)
+   */
+  readAccelG(): MaybeAsync<M, AccelVector<'g'>> {
+    return this.readAccel('g');
+  }
+
+  /**
+   * Check if new accelerometer data is available
+   */
+  isAccelDataReady(): MaybeAsync<M, boolean> {
+    return this.run(function* () {
+      const status = yield* wait(this.bus.readByte(Registers.STATUS_REG));
+      return (status & 0x01) !== 0;
+    });
+  }
+
+  // ==================== Gyroscope Methods ====================
+
+  /**
+   * Enable the gyroscope
+   */
+  enableGyro(): MaybeAsync<M, void> {
+    return this.run(function* () {
+      yield* this.writeGyroConfig(this.gyroODR, this.gyroFS);
+      this.gyroEnabled = true;
+    });
+  }
+
+  /**
+   * Disable the gyroscope
+   */
+  disableGyro(): MaybeAsync<M, void> {
+    return this.run(function* () {
+      yield* this.writeGyroConfig(GyroODR.OFF, this.gyroFS);
+      this.gyroEnabled = false;
+    });
+  }
+
+  /**
+   * Check if gyroscope is enabled
+   */
+  isGyroEnabled(): boolean {
+    return this.gyroEnabled;
+  }
+
+  /**
+   * Set gyroscope output data rate
+   * @param odr - Output data rate
+   */
+  setGyroODR(odr: GyroODR): MaybeAsync<M, void> {
+    return this.run(function* () {
+      this.gyroODR = odr;
+      if (this.gyroEnabled) {
+        yield* this.writeGyroConfig(odr, this.gyroFS);
+      }
+    });
+  }
+
+  /**
+   * Get gyroscope output data rate in Hz
+   */
+  getGyroODR(): number {
+    return GyroODRHz[this.gyroODR];
+  }
+
+  /**
+   * Set gyroscope full scale
+   * @param fs - Full scale setting
+   */
+  setGyroFullScale(fs: GyroFullScale): MaybeAsync<M, void> {
+    return this.run(function* () {
+      this.gyroFS = fs;
+      this.gyroTrackingWindow = [];
+      if (this.gyroEnabled) {
+        yield* this.writeGyroConfig(this.gyroODR, fs);
+      }
+    });
+  }
+
+  /**
+   * Get gyroscope full scale value in dps
+   */
+  getGyroFullScale(): number {
+    return GyroFSValue[this.gyroFS];
+  }
+
+  /**
+   * Get gyroscope sensitivity (mdps/LSB)
+   */
+  getGyroSensitivity(): number {
+    return GyroSensitivity[this.gyroFS];
+  }
+
+  /**
+   * Read raw gyroscope data
+   */
+  readRawGyro(): MaybeAsync<M, RawVector3D> {
+    return this.run(function* () {
+      const buffer = yield* wait(this.bus.readBlock(Registers.OUTX_L_G, 6));
+      return {
+        x: buffer.readInt16LE(0),
+        y: buffer.readInt16LE(2),
+        z: buffer.readInt16LE(4),
+      };
+    });
+  }
+
+  /**
+   * Read gyroscope data in the configured unit (default: mdps)
+   * The bias for the active full scale is subtracted (see calibrateGyroBias)
+   * @param unit - Unit for this reading only
+   */
+  readGyro(): MaybeAsync<M, GyroVector<ResolveUnits<O>['gyro']>>;
+  readGyro<G extends GyroUnit>(unit: G): MaybeAsync<M, GyroVector<G>>;
+  readGyro(unit?: GyroUnit): MaybeAsync<M, GyroVector<GyroUnit>> {
+    return this.run(function* () {
+      const mdps = toDeviceFrame(this.mounting, this.compensateGyro(yield* this.readUncompensatedGyro()));
+      return convertGyro(mdps, unit ?? this.units.gyro);
+    });
+  }
+
+  /**
+   * Read gyroscope data in dps (degrees per second)
+   */
+  readGyroDPS(): MaybeAsync<M, GyroVector<'dps'>> {
+    return this.readGyro('dps');
+  }
+
+  /**
+   * Check if new gyroscope data is available
+   */
+  isGyroDataReady(): MaybeAsync<M, boolean> {
+    return this.run(function* () {
+      const status = yield* wait(this.bus.readByte(Registers.STATUS_REG));
+      return (status & 0x02) !== 0;
+    });
+  }
+
+  // ==================== Temperature Methods ====================
+
+  /**
+   * Read raw temperature data
+   */
+  readRawTemperature(): MaybeAsync<M, number> {
+    return this.run(function* () {
+      const buffer = yield* wait(this.bus.readBlock(Registers.OUT_TEMP_L, 2));
+      return buffer.readInt16LE(0);
+    });
+  }
+
+  /**
+   * Read temperature in the configured unit (default: °C)
+   * Temperature sensitivity: 256 LSB/°C, offset: 25°C at 0
+   * @param unit - Unit for this reading only
+   */
+  readTemperature(): MaybeAsync<M, Temperature<ResolveUnits<O>['temperature']>>;
+  readTemperature<T extends TemperatureUnit>(unit: T): MaybeAsync<M, Temperature<T>>;
+  readTemperature(unit?: TemperatureUnit): MaybeAsync<M, Temperature<TemperatureUnit>> {
+    return this.run(function* () {
+      const raw = yield* wait(this.readRawTemperature());
+      return convertTemperature(25 + raw / 256, unit ?? this.units.temperature);
+    });
+  }
+
+  /**
+   * Check if new temperature data is available
+   */
+  isTempDataReady(): MaybeAsync<M, boolean> {
+    return this.run(function* () {
+      const status = yield* wait(this.bus.readByte(Registers.STATUS_REG));
+      return (status & 0x04) !== 0;
+    });
+  }
+
+  // ==================== Combined Reading Methods ====================
+
+  /**
+   * Get status of all data ready flags
+   */
+  getStatus(): MaybeAsync<M, SensorStatus> {
+    return this.run(function* () {
+      const status = yield* wait(this.bus.readByte(Registers.STATUS_REG));
+      return {
+        accelDataReady: (status & 0x01) !== 0,
+        gyroDataReady: (status & 0x02) !== 0,
+        tempDataReady: (status & 0x04) !== 0,
+      };
+    });
+  }
+
+  /**
+   * Read all IMU data (accelerometer and gyroscope)
+   * @param includeTemp - Include temperature reading
+   * @param includeTimestamp - Include on-chip timestamp (requires enableTimestamp())
+   * @param units - Units for this reading only
+   */
+  readIMU<V extends OutputUnits = {}>(
+    includeTemp: boolean = false,
+    includeTimestamp: boolean = false,
+    units?: V
+  ): MaybeAsync<M, IMUData<ResolveUnits<V, ResolveUnits<O>>>> {
+    return this.run(function* () {
+      return convertIMUData(yield* this.readSample(includeTemp, includeTimestamp), resolveUnits(units, this.units));
+    });
+  }
+
+  // ==================== Streaming Methods ====================
+
+  /**
+   * Stream IMU samples as an async iterator, paced by the configured ODR
+   * Leaving a for-await loop, aborting `signal` or close() stops the stream;
+   * read errors are thrown from the iterator
+   */
+  stream<V extends OutputUnits = {}>(
+    options: IMUStreamOptions<V> = {}
+  ): AsyncIterableIterator<IMUData<ResolveUnits<V, ResolveUnits<O>>>> {
+    return imuStream(this, options, this.streamStops) as AsyncIterableIterator<IMUData<ResolveUnits<V, ResolveUnits<O>>>>;
+  }
+
+  /**
+   * Stream IMU samples as an object-mode Readable
+   * The sensor is only read while the consumer keeps up (backpressure);
+   * destroy() stops the stream and read errors are emitted as 'error'
+   */
+  createReadStream<V extends OutputUnits = {}>(options: IMUStreamOptions<V> = {}): Readable {
+    return Readable.from(this.stream(options), { objectMode: true, highWaterMark: options.highWaterMark ?? 16 });
+  }
+
+  // ==================== Sensor Fusion Methods ====================
+
+  /**
+   * Estimate attitude from every sample read with readIMU(), dataReady events or streams
+   * The estimate is attached to the samples as `attitude`. Samples are timed by
+   * the timestamp counter when enabled, by `sampleRate` (default: gyroscope ODR) otherwise
+   * @returns The filter, e.g. to change gains while running
+   */
+  enableFusion(options: FusionOptions = {}): AHRS {
+    const { magnetometer } = options;
+    this.fusionSampleRate = options.sampleRate ?? null;
+    this.fusion = new AHRS({
+      ...options,
+      sampleRate: options.sampleRate ?? this.fusionRate(),
+      // The filter runs in the device frame, like the readings it is fed
+      magnetometer: magnetometer && (() => {
+        const field = magnetometer();
+        return field && toDeviceFrame(this.mounting, field);
+      }),
+    });
+    return this.fusion;
+  }
+
+  disableFusion(): void {
+    this.fusion = null;
+    this.fusionSampleRate = null;
+  }
+
+  isFusionEnabled(): boolean {
+    return this.fusion !== null;
+  }
+
+  /**
+   * Latest attitude estimate, null when fusion is disabled
+   */
+  getAttitude(): AttitudeEstimate<ResolveUnits<O>['accel']> | null {
+    return this.fusion ? convertAttitude(this.fusion.getEstimate(), this.units.accel) : null;
+  }
+
+  /**
+   * Feed a sample read elsewhere (e.g. paired FIFO samples) to the fusion filter
+   * @param units - Units of `data` when they differ from the configured ones
+   * @returns The updated estimate, null when fusion is disabled
+   */
+  updateFusion<V extends OutputUnits = {}>(
+    data: IMUData<ResolveUnits<V, ResolveUnits<O>>>,
+    units?: V
+  ): AttitudeEstimate<ResolveUnits<V, ResolveUnits<O>>['accel']> | null {
+    if (!this.fusion) {
+      return null;
+    }
+    const from = resolveUnits(units, this.units);
+    return convertAttitude(this.fuse(convertIMUData(data, DEFAULT_UNITS, from)), from.accel);
+  }
+
+  // ==================== Timestamp Methods ====================
+
+  /**
+   * Enable the on-chip timestamp counter
+   * The tick resolution is trimmed with the factory INTERNAL_FREQ_FINE value
+   */
+  enableTimestamp(): MaybeAsync<M, void> {
+    return this.run(function* () {
+      // INTERNAL_FREQ_FINE: signed difference to the nominal internal clock, 0.15% per LSB
+      const freqFine = (yield* wait(this.bus.readBlock(Registers.INTERNAL_FREQ_FINE, 1))).readInt8(0);
+      this.timestampResolutionUs = TIMESTAMP_RESOLUTION_US / (1 + 0.0015 * freqFine);
+
+      let ctrl10 = yield* wait(this.bus.readByte(Registers.CTRL10_C));
+      ctrl10 |= 0x20; // Set TIMESTAMP_EN bit
+      yield* wait(this.bus.writeByte(Registers.CTRL10_C, ctrl10));
+      this.timestampEnabled = true;
+    });
+  }
+
+  /**
+   * Disable the on-chip timestamp counter
+   */
+  disableTimestamp(): MaybeAsync<M, void> {
+    return this.run(function* () {
+      let ctrl10 = yield* wait(this.bus.readByte(Registers.CTRL10_C));
+      ctrl10 &= ~0x20;
+      yield* wait(this.bus.writeByte(Registers.CTRL10_C, ctrl10));
+      this.timestampEnabled = false;
+    });
+  }
+
+  /**
+   * Check if the timestamp counter is enabled
+   */
+  isTimestampEnabled(): boolean {
+    return this.timestampEnabled;
+  }
+
+  /**
+   * Reset the timestamp counter to zero
+   */
+  resetTimestamp(): MaybeAsync<M, void> {
+    return this.run(function* () {
+      yield* wait(this.bus.writeByte(Registers.TIMESTAMP2, 0xaa)); // Writing 0xAA resets the counter
+      this.lastTimestampTicks = 0;
+      this.timestampWraps = 0;
+    });
+  }
+
+  /**
+   * Get timestamp resolution (µs/LSB)
+   */
+  getTimestampResolution(): number {
+    return this.timestampResolutionUs;
+  }
+
+  /**
+   * Read raw 32-bit timestamp tick count
+   */
+  readRawTimestamp(): MaybeAsync<M, number> {
+    return this.run(function* () {
+      const buffer = yield* wait(this.bus.readBlock(Registers.TIMESTAMP0, 4));
+      return buffer.readUInt32LE(0);
+    });
+  }
+
+  /**
+   * Read timestamp in microseconds
+   * Counter rollover (every ~30 hours) is corrected, so values keep increasing
+   * as long as the timestamp is read at least once per rollover period
+   */
+  readTimestamp(): MaybeAsync<M, number> {
+    return this.run(function* () {
+      return this.ticksToMicroseconds(yield* wait(this.readRawTimestamp()));
+    });
+  }
+
+  // ==================== Configuration Methods ====================
+
+  /**
+   * Units of readings, FIFO samples and events (selected with `config.units`)
+   */
+  getUnits(): ResolveUnits<O> {
+    return { ...this.units };
+  }
+
+  /**
+   * Set how the sensor is mounted on the device (see `config.mounting`)
+   * Readings, FIFO samples, calibration positions and event axes are then
+   * reported in the device frame; tap axes are re-applied and fusion restarts
+   */
+  setMounting(mounting: Mounting): MaybeAsync<M, void> {
+    return this.run(function* () {
+      this.mounting = resolveMounting(mounting);
+      this.lastOrientation = null;
+      this.fusion?.reset();
+      if (this.tapConfig) yield* this.writeTapConfig(this.tapConfig);
+    });
+  }
+
+  /**
+   * Rotation matrix from the sensor frame to the device frame
+   */
+  getMounting(): Matrix3 {
+    return mountingMatrix(this.mounting ?? '+X+Y+Z');
+  }
+
+  /**
+   * Perform software reset
+   */
+  reset(): MaybeAsync<M, void> {
+    return this.run(function* () {
+      let ctrl3 = yield* wait(this.bus.readByte(Registers.CTRL3_C));
+      ctrl3 |= 0x01; // Set SW_RESET bit
+      yield* wait(this.bus.writeByte(Registers.CTRL3_C, ctrl3));
+
+      // Wait for reset to complete (bit auto-clears)
+      let timeout = 100;
+      while (timeout > 0) {
+        ctrl3 = yield* wait(this.bus.readByte(Registers.CTRL3_C));
+        if ((ctrl3 & 0x01) === 0) break;
+        timeout--;
+      }
+
+      if (timeout === 0) {
+        throw new Error('LSM6DSR reset timeout');
+      }
+
+      // The reset re-enables the I2C interface
+      if (this.transport === 'spi') {
+        yield* this.disableI2C();
+      }
+    });
+  }
+
+  /**
+   * Set Block Data Update mode
+   * When enabled, output registers are not updated until both MSB and LSB are read
+   */
+  setBlockDataUpdate(enable: boolean): MaybeAsync<M, void> {
+    return this.run(function* () {
+      let ctrl3 = yield* wait(this.bus.readByte(Registers.CTRL3_C));
+      if (enable) {
+        ctrl3 |= 0x40; // Set BDU bit
+      } else {
+        ctrl3 &= ~0x40;
+      }
+      yield* wait(this.bus.writeByte(Registers.CTRL3_C, ctrl3));
+    });
+  }
+
+  /**
+   * Set register auto-increment mode
+   * When enabled, register address automatically increments during multi-byte read/write
+   */
+  setAutoIncrement(enable: boolean): MaybeAsync<M, void> {
+    return this.run(function* () {
+      let ctrl3 = yield* wait(this.bus.readByte(Registers.CTRL3_C));
+      if (enable) {
+        ctrl3 |= 0x04; // Set IF_INC bit
+      } else {
+        ctrl3 &= ~0x04;
+      }
+      yield* wait(this.bus.writeByte(Registers.CTRL3_C, ctrl3));
+    });
+  }
+
+  /**
+   * Set the internal pull-up on the SDO/SA0 pin
+   */
+  setSDOPullUp(enable: boolean): MaybeAsync<M, void> {
+    return this.run(function* () {
+      // PIN_CTRL: SDO_PU_EN[6], bits [5:0] must stay set
+      const value = enable ? 0x7f : 0x3f;
+      yield* wait(this.bus.writeByte(Registers.PIN_CTRL, value));
+    });
+  }
+
+  /**
+   * Disable I3C protocol
+   */
+  private *disableI3C(): Steps<void> {
+    let ctrl9 = yield* wait(this.bus.readByte(Registers.CTRL9_XL));
+    ctrl9 |= 0x02; // Set I3C_DISABLE bit
+    yield* wait(this.bus.writeByte(Registers.CTRL9_XL, ctrl9));
+  }
+
+  private *disableI2C(): Steps<void> {
+    let ctrl4 = yield* wait(this.bus.readByte(Registers.CTRL4_C));
+    ctrl4 |= 0x04; // Set I2C_disable bit
+    yield* wait(this.bus.writeByte(Registers.CTRL4_C, ctrl4));
+  }
+
+  /**
+   * Set accelerometer operating mode
+   */
+  setAccelOperatingMode(mode: AccelOperatingMode): MaybeAsync<M, void> {
+    return this.run(function* () {
+      let ctrl6 = yield* wait(this.bus.readByte(Registers.CTRL6_C));
+      if (mode === AccelOperatingMode.HIGH_PERFORMANCE) {
+        ctrl6 &= ~0x10; // Clear XL_HM_MODE bit
+      } else {
+        ctrl6 |= 0x10; // Set XL_HM_MODE bit
+      }
+      yield* wait(this.bus.writeByte(Registers.CTRL6_C, ctrl6));
+    });
+  }
+
+  /**
+   * Set gyroscope operating mode
+   */
+  setGyroOperatingMode(mode: GyroOperatingMode): MaybeAsync<M, void> {
+    return this.run(function* () {
+      let ctrl7 = yield* wait(this.bus.readByte(Registers.CTRL7_G));
+      if (mode === GyroOperatingMode.HIGH_PERFORMANCE) {
+        ctrl7 &= ~0x80; // Clear G_HM_MODE bit
+      } else {
+        ctrl7 |= 0x80; // Set G_HM_MODE bit
+      }
+      yield* wait(this.bus.writeByte(Registers.CTRL7_G, ctrl7));
+    });
+  }
+
+  // ==================== FIFO Methods ====================
+
+  /**
+   * Set FIFO mode
+   */
+  setFIFOMode(mode: FIFOMode): MaybeAsync<M, void> {
+    return this.run(function* () {
+      let fifoCtrl4 = yield* wait(this.bus.readByte(Registers.FIFO_CTRL4));
+      fifoCtrl4 = (fifoCtrl4 & 0xf8) | (mode & 0x07);
+      yield* wait(this.bus.writeByte(Registers.FIFO_CTRL4, fifoCtrl4));
+    });
+  }
+
+  /**
+   * Get the FIFO mode
+   */
+  getFIFOMode(): MaybeAsync<M, FIFOMode> {
+    return this.run(function* () {
+      const fifoCtrl4 = yield* wait(this.bus.readByte(Registers.FIFO_CTRL4));
+      return (fifoCtrl4 & 0x07) as FIFOMode;
+    });
+  }
+
+  /**
+   * Configure batch rates, watermark and mode in one call
+   * The mode is written last so batching starts with the new settings
+   */
+  configureFIFO(config: FIFOConfig): MaybeAsync<M, void> {
+    return this.run(function* () {
+      if (config.accelBatchRate !== undefined) yield* wait(this.setFIFOAccelBatchRate(config.accelBatchRate));
+      if (config.gyroBatchRate !== undefined) yield* wait(this.setFIFOGyroBatchRate(config.gyroBatchRate));
+      if (config.tempBatchRate !== undefined) yield* wait(this.setFIFOTempBatchRate(config.tempBatchRate));
+      if (config.timestampDecimation !== undefined) yield* wait(this.setFIFOTimestampBatching(config.timestampDecimation));
+      if (config.watermark !== undefined) yield* wait(this.setFIFOWatermark(config.watermark));
+      if (config.stopOnWatermark !== undefined) yield* wait(this.setFIFOStopOnWatermark(config.stopOnWatermark));
+      if (config.mode !== undefined) yield* wait(this.setFIFOMode(config.mode));
+    });
+  }
+
+  /**
+   * Set the rate at which accelerometer samples are written to the FIFO
+   */
+  setFIFOAccelBatchRate(bdr: FIFOAccelBDR): MaybeAsync<M, void> {
+    return this.run(function* () {
+      let fifoCtrl3 = yield* wait(this.bus.readByte(Registers.FIFO_CTRL3));
+      fifoCtrl3 = (fifoCtrl3 & 0xf0) | (bdr & 0x0f); // BDR_XL[3:0]
+      yield* wait(this.bus.writeByte(Registers.FIFO_CTRL3, fifoCtrl3));
+    });
+  }
+
+  /**
+   * Set the rate at which gyroscope samples are written to the FIFO
+   */
+  setFIFOGyroBatchRate(bdr: FIFOGyroBDR): MaybeAsync<M, void> {
+    return this.run(function* () {
+      let fifoCtrl3 = yield* wait(this.bus.readByte(Registers.FIFO_CTRL3));
+      fifoCtrl3 = (fifoCtrl3 & 0x0f) | ((bdr & 0x0f) << 4); // BDR_GY[7:4]
+      yield* wait(this.bus.writeByte(Registers.FIFO_CTRL3, fifoCtrl3));
+    });
+  }
+
+  /**
+   * Set the rate at which temperature samples are written to the FIFO
+   */
+  setFIFOTempBatchRate(bdr: FIFOTempBDR): MaybeAsync<M, void> {
+    return this.run(function* () {
+      let fifoCtrl4 = yield* wait(this.bus.readByte(Registers.FIFO_CTRL4));
+      fifoCtrl4 = (fifoCtrl4 & 0xcf) | ((bdr & 0x03) << 4); // ODR_T_BATCH[5:4]
+      yield* wait(this.bus.writeByte(Registers.FIFO_CTRL4, fifoCtrl4));
+    });
+  }
+
+  /**
+   * Set how often timestamps are written to the FIFO
+   * Timestamps are only batched while the timestamp counter is enabled
+   */
+  setFIFOTimestampBatching(decimation: FIFOTimestampDecimation): MaybeAsync<M, void> {
+    return this.run(function* () {
+      let fifoCtrl4 = yield* wait(this.bus.readByte(Registers.FIFO_CTRL4));
+      fifoCtrl4 = (fifoCtrl4 & 0x3f) | ((decimation & 0x03) << 6); // DEC_TS_BATCH[7:6]
+      yield* wait(this.bus.writeByte(Registers.FIFO_CTRL4, fifoCtrl4));
+    });
+  }
+
+  /**
+   * Set the FIFO watermark threshold
+   * @param samples - Number of samples (0-511) that raises the watermark flag
+   */
+  setFIFOWatermark(samples: number): MaybeAsync<M, void> {
+    return this.run(function* () {
+      if (!Number.isInteger(samples) || samples < 0 || samples > FIFO_MAX_WATERMARK) {
+        throw new Error(`Invalid FIFO watermark ${samples}, expected an integer between 0 and ${FIFO_MAX_WATERMARK}`);
+      }
+      yield* wait(this.bus.writeByte(Registers.FIFO_CTRL1, samples & 0xff)); // WTM[7:0]
+      let fifoCtrl2 = yield* wait(this.bus.readByte(Registers.FIFO_CTRL2));
+      fifoCtrl2 = (fifoCtrl2 & 0xfe) | ((samples >> 8) & 0x01); // WTM8
+      yield* wait(this.bus.writeByte(Registers.FIFO_CTRL2, fifoCtrl2));
+    });
+  }
+
+  /**
+   * Get the FIFO watermark threshold in samples
+   */
+  getFIFOWatermark(): MaybeAsync<M, number> {
+    return this.run(function* () {
+      const buffer = yield* wait(this.bus.readBlock(Registers.FIFO_CTRL1, 2));
+      return ((buffer[1] & 0x01) << 8) | buffer[0];
+    });
+  }
+
+  /**
+   * Limit FIFO depth to the watermark level
+   * When enabled, batching stops once the watermark is reached
+   */
+  setFIFOStopOnWatermark(enable: boolean): MaybeAsync<M, void> {
+    return this.run(function* () {
+      let fifoCtrl2 = yield* wait(this.bus.readByte(Registers.FIFO_CTRL2));
+      if (enable) {
+        fifoCtrl2 |= 0x80; // Set STOP_ON_WTM bit
+      } else {
+        fifoCtrl2 &= ~0x80;
+      }
+      yield* wait(this.bus.writeByte(Registers.FIFO_CTRL2, fifoCtrl2));
+    });
+  }
+
+  /**
+   * Get FIFO fill level and status flags
+   */
+  getFIFOStatus(): MaybeAsync<M, FIFOStatus> {
+    return this.run(function* () {
+      const buffer = yield* wait(this.bus.readBlock(Registers.FIFO_STATUS1, 2));
+      const status2 = buffer[1];
+      return {
+        level: ((status2 & 0x03) << 8) | buffer[0], // DIFF_FIFO[9:0]
+        watermarkReached: (status2 & 0x80) !== 0,
+        overrun: (status2 & 0x40) !== 0,
+        full: (status2 & 0x20) !== 0,
+        counterBDRReached: (status2 & 0x10) !== 0,
+        overrunLatched: (status2 & 0x08) !== 0,
+      };
+    });
+  }
+
+  /**
+   * Get the number of unread samples in the FIFO
+   */
+  getFIFOLevel(): MaybeAsync<M, number> {
+    return this.run(function* () {
+      return (yield* wait(this.getFIFOStatus())).level;
+    });
+  }
+
+  /**
+   * Read and decode a single sample from the FIFO
+   * @param units - Units for this sample only
+   */
+  readFIFOSample<V extends OutputUnits = {}>(units?: V): MaybeAsync<M, FIFOSample<ResolveUnits<V, ResolveUnits<O>>>> {
+    return this.run(function* () {
+      // FIFO_DATA_OUT_TAG followed by X_L..Z_H in a single 7 byte burst
+      const buffer = yield* wait(this.bus.readBlock(Registers.FIFO_DATA_OUT_TAG, 7));
+      return this.decodeFIFOSample(buffer, resolveUnits(units, this.units));
+    });
+  }
+
+  /**
+   * Drain the FIFO
+   * @param maxSamples - Upper bound on the number of samples read
+   * @param units - Units for these samples only
+   * @returns Decoded samples in the order they were batched
+   */
+  readFIFO<V extends OutputUnits = {}>(
+    maxSamples?: number,
+    units?: V
+  ): MaybeAsync<M, FIFOSample<ResolveUnits<V, ResolveUnits<O>>>[]> {
+    return this.run(function* () {
+      let count = yield* wait(this.getFIFOLevel());
+      if (maxSamples !== undefined) {
+        count = Math.min(count, maxSamples);
+      }
+
+      const samples: FIFOSample<ResolveUnits<V, ResolveUnits<O>>>[] = [];
+      for (let i = 0; i < count; i++) {
+        samples.push(yield* wait(this.readFIFOSample(units)));
+      }
+      return samples;
+    });
+  }
+
+  // ==================== Interrupt Methods ====================
+
+  /**
+   * Route interrupt sources to an interrupt pin
+   * Only the sources present in `routing` are changed, others keep their current state
+   */
+  setInterruptRouting(pin: InterruptPin, routing: InterruptRouting): MaybeAsync<M, void> {
+    return this.run(function* () {
+      const isInt1 = pin === InterruptPin.INT1;
+      if (isInt1 && (routing.tempDataReady || routing.timestamp)) {
+        throw new Error('Temperature data-ready and timestamp interrupts are only available on INT2');
+      }
+      if (!isInt1 && (routing.boot || routing.sensorHub)) {
+        throw new Error('Boot and sensor hub interrupts are only available on INT1');
+      }
+
+      // INT1_CTRL / INT2_CTRL
+      const ctrlRegister = isInt1 ? Registers.INT1_CTRL : Registers.INT2_CTRL;
+      let ctrl = yield* wait(this.bus.readByte(ctrlRegister));
+      ctrl = updateBits(ctrl, 0x01, routing.accelDataReady); // INTx_DRDY_XL
+      ctrl = updateBits(ctrl, 0x02, routing.gyroDataReady); // INTx_DRDY_G
+      ctrl = updateBits(ctrl, 0x04, isInt1 ? routing.boot : routing.tempDataReady); // INT1_BOOT / INT2_DRDY_TEMP
+      ctrl = updateBits(ctrl, 0x08, routing.fifoThreshold); // INTx_FIFO_TH
+      ctrl = updateBits(ctrl, 0x10, routing.fifoOverrun); // INTx_FIFO_OVR
+      ctrl = updateBits(ctrl, 0x20, routing.fifoFull); // INTx_FIFO_FULL
+      yield* wait(this.bus.writeByte(ctrlRegister, ctrl));
+
+      // MD1_CFG / MD2_CFG
+      const mdRegister = isInt1 ? Registers.MD1_CFG : Registers.MD2_CFG;
+      let md = yield* wait(this.bus.readByte(mdRegister));
+      md = updateBits(md, 0x01, isInt1 ? routing.sensorHub : routing.timestamp); // INT1_SHUB / INT2_TIMESTAMP
+      md = updateBits(md, 0x02, routing.embeddedFunctions); // INTx_EMB_FUNC
+      md = updateBits(md, 0x04, routing.orientation); // INTx_6D
+      md = updateBits(md, 0x08, routing.doubleTap); // INTx_DOUBLE_TAP
+      md = updateBits(md, 0x10, routing.freeFall); // INTx_FF
+      md = updateBits(md, 0x20, routing.wakeUp); // INTx_WU
+      md = updateBits(md, 0x40, routing.singleTap); // INTx_SINGLE_TAP
+      md = updateBits(md, 0x80, routing.sleepChange); // INTx_SLEEP_CHANGE
+      yield* wait(this.bus.writeByte(mdRegister, md));
+
+      // Basic event interrupts (tap, wake-up, free-fall, 6D, sleep change)
+      if ((md & 0xfc) !== 0) {
+        yield* this.enableBasicInterrupts();
+      }
+
+      this.interruptRouting.set(pin, yield* this.readInterruptRouting(pin));
+    });
+  }
+
+  /**
+   * Get the interrupt sources currently routed to a pin
+   */
+  getInterruptRouting(pin: InterruptPin): MaybeAsync<M, InterruptRouting> {
+    return this.run(function* () {
+      const routing = yield* this.readInterruptRouting(pin);
+      this.interruptRouting.set(pin, routing);
+      return { ...routing };
+    });
+  }
+
+  /**
+   * Configure interrupt pin polarity, output stage and signalling in one call
+   */
+  configureInterruptPins(config: InterruptPinConfig): MaybeAsync<M, void> {
+    return this.run(function* () {
+      if (config.polarity !== undefined) yield* wait(this.setInterruptPolarity(config.polarity));
+      if (config.outputMode !== undefined) yield* wait(this.setInterruptOutputMode(config.outputMode));
+      if (config.latched !== undefined) yield* wait(this.setInterruptLatched(config.latched));
+      if (config.pulsedDataReady !== undefined) yield* wait(this.setDataReadyPulsed(config.pulsedDataReady));
+      if (config.allOnInt1 !== undefined) yield* wait(this.setAllInterruptsOnInt1(config.allOnInt1));
+    });
+  }
+
+  /**
+   * Set interrupt pin active level
+   */
+  setInterruptPolarity(polarity: InterruptPolarity): MaybeAsync<M, void> {
+    return this.run(function* () {
+      let ctrl3 = yield* wait(this.bus.readByte(Registers.CTRL3_C));
+      if (polarity === InterruptPolarity.ACTIVE_LOW) {
+        ctrl3 |= 0x20; // Set H_LACTIVE bit
+      } else {
+        ctrl3 &= ~0x20;
+      }
+      yield* wait(this.bus.writeByte(Registers.CTRL3_C, ctrl3));
+      this.interruptPolarity = polarity;
+
+      // Re-arm attached lines on the new active edge
+      for (const [pin, gpio] of this.interruptLines) {
+        yield* wait(this.attachInterrupt(pin, gpio));
+      }
+    });
+  }
+
+  /**
+   * Set interrupt pin output stage (push-pull or open-drain)
+   */
+  setInterruptOutputMode(mode: InterruptOutputMode): MaybeAsync<M, void> {
+    return this.run(function* () {
+      let ctrl3 = yield* wait(this.bus.readByte(Registers.CTRL3_C));
+      if (mode === InterruptOutputMode.OPEN_DRAIN) {
+        ctrl3 |= 0x10; // Set PP_OD bit
+      } else {
+        ctrl3 &= ~0x10;
+      }
+      yield* wait(this.bus.writeByte(Registers.CTRL3_C, ctrl3));
+    });
+  }
+
+  /**
+   * Set latched event interrupts
+   * When enabled, event interrupts stay asserted until their source register is read
+   */
+  setInterruptLatched(enable: boolean): MaybeAsync<M, void> {
+    return this.run(function* () {
+      let tapCfg0 = yield* wait(this.bus.readByte(Registers.TAP_CFG0));
+      if (enable) {
+        tapCfg0 |= 0x41; // Set INT_CLR_ON_READ and LIR bits
+      } else {
+        tapCfg0 &= ~0x41;
+      }
+      yield* wait(this.bus.writeByte(Registers.TAP_CFG0, tapCfg0));
+
+      yield* this.withRegisterBank(FUNC_CFG_EMBEDDED, function* () {
+        let pageRw = yield* wait(this.bus.readByte(EmbeddedRegisters.PAGE_RW));
+        pageRw = updateBits(pageRw, 0x80, enable); // EMB_FUNC_LIR
+        yield* wait(this.bus.writeByte(EmbeddedRegisters.PAGE_RW, pageRw));
+      });
+    });
+  }
+
+  /**
+   * Set pulsed data-ready mode
+   * When enabled, data-ready interrupts are 75 µs pulses instead of a level cleared by reading the data
+   */
+  setDataReadyPulsed(enable: boolean): MaybeAsync<M, void> {
+    return this.run(function* () {
+      let counterBdr1 = yield* wait(this.bus.readByte(Registers.COUNTER_BDR_REG1));
+      if (enable) {
+        counterBdr1 |= 0x80; // Set dataready_pulsed bit
+      } else {
+        counterBdr1 &= ~0x80;
+      }
+      yield* wait(this.bus.writeByte(Registers.COUNTER_BDR_REG1, counterBdr1));
+    });
+  }
+
+  /**
+   * Drive all interrupt sources on INT1 (INT2 sources are OR-ed onto INT1)
+   */
+  setAllInterruptsOnInt1(enable: boolean): MaybeAsync<M, void> {
+    return this.run(function* () {
+      let ctrl4 = yield* wait(this.bus.readByte(Registers.CTRL4_C));
+      if (enable) {
+        ctrl4 |= 0x20; // Set INT2_on_INT1 bit
+      } else {
+        ctrl4 &= ~0x20;
+      }
+      yield* wait(this.bus.writeByte(Registers.CTRL4_C, ctrl4));
+      this.allInterruptsOnInt1 = enable;
+    });
+  }
+
+  /**
+   * Route embedded function sources (pedometer, tilt, ...) to an interrupt pin
+   * Only the sources present in `routing` are changed; the pin's embedded
+   * function interrupt is enabled when any source is routed
+   */
+  setEmbeddedInterruptRouting(pin: InterruptPin, routing: EmbeddedInterruptRouting): MaybeAsync<M, void> {
+    return this.run(function* () {
+      const register = pin === InterruptPin.INT1 ? EmbeddedRegisters.EMB_FUNC_INT1 : EmbeddedRegisters.EMB_FUNC_INT2;
+      const value = yield* this.withRegisterBank(FUNC_CFG_EMBEDDED, function* () {
+        let embFuncInt = yield* wait(this.bus.readByte(register));
+        embFuncInt = updateBits(embFuncInt, 0x08, routing.stepDetector); // INTx_STEP_DETECTOR
+        embFuncInt = updateBits(embFuncInt, 0x10, routing.tilt); // INTx_TILT
+        embFuncInt = updateBits(embFuncInt, 0x20, routing.significantMotion); // INTx_SIG_MOT
+        embFuncInt = updateBits(embFuncInt, 0x80, routing.fsmLongCounter); // INTx_FSM_LC
+        yield* wait(this.bus.writeByte(register, embFuncInt));
+        return embFuncInt;
+      });
+
+      if (value !== 0) {
+        yield* wait(this.setInterruptRouting(pin, { embeddedFunctions: true }));
+      }
+    });
+  }
+
+  /**
+   * Route a Finite State Machine interrupt to an interrupt pin
+   * @param fsm - State machine number (1-16)
+   */
+  setFSMInterruptRouting(pin: InterruptPin, fsm: number, enable: boolean): MaybeAsync<M, void> {
+    return this.run(function* () {
+      validateFSMNumber(fsm);
+      const isInt1 = pin === InterruptPin.INT1;
+      const register = fsm <= 8
+        ? (isInt1 ? EmbeddedRegisters.FSM_INT1_A : EmbeddedRegisters.FSM_INT2_A)
+        : (isInt1 ? EmbeddedRegisters.FSM_INT1_B : EmbeddedRegisters.FSM_INT2_B);
+
+      yield* this.withRegisterBank(FUNC_CFG_EMBEDDED, function* () {
+        let fsmInt = yield* wait(this.bus.readByte(register));
+        fsmInt = updateBits(fsmInt, 1 << ((fsm - 1) % 8), enable); // INTx_FSMn
+        yield* wait(this.bus.writeByte(register, fsmInt));
+      });
+
+      if (enable) {
+        yield* wait(this.setInterruptRouting(pin, { embeddedFunctions: true }));
+      }
+    });
+  }
+
+  /**
+   * Read which event interrupts are pending
+   * With latched interrupts enabled, reading this register clears them
+   */
+  getInterruptSources(): MaybeAsync<M, InterruptSources> {
+    return this.run(function* () {
+      // ALL_INT_SRC: TIMESTAMP_ENDCOUNT[7], SLEEP_CHANGE_IA[5], D6D_IA[4], DOUBLE_TAP[3], SINGLE_TAP[2], WU_IA[1], FF_IA[0]
+      const allIntSrc = yield* wait(this.bus.readByte(Registers.ALL_INT_SRC));
+      return {
+        freeFall: (allIntSrc & 0x01) !== 0,
+        wakeUp: (allIntSrc & 0x02) !== 0,
+        singleTap: (allIntSrc & 0x04) !== 0,
+        doubleTap: (allIntSrc & 0x08) !== 0,
+        orientation: (allIntSrc & 0x10) !== 0,
+        sleepChange: (allIntSrc & 0x20) !== 0,
+        timestampEndCount: (allIntSrc & 0x80) !== 0,
+      };
+    });
+  }
+
+  /**
+   * Deliver events from an interrupt pin wired to a GPIO input
+   * On every active edge the routed sources are read and the matching events are emitted
+   * @param pin - Interrupt pin the GPIO line is connected to
+   * @param gpio - GPIO input line
+   */
+  attachInterrupt(pin: InterruptPin, gpio: GPIOInterface): MaybeAsync<M, void> {
+    return this.run(function* () {
+      this.interruptLines.get(pin)?.unwatch();
+      if (!this.interruptRouting.has(pin)) {
+        this.interruptRouting.set(pin, yield* this.readInterruptRouting(pin));
+      }
+
+      const activeLevel = this.interruptPolarity === InterruptPolarity.ACTIVE_HIGH ? 1 : 0;
+      gpio.watch(activeLevel ? 'rising' : 'falling', () => this.onInterruptEdge(pin));
+      this.interruptLines.set(pin, gpio);
+
+      // A latched line may already be asserted, in which case no edge will follow
+      if (gpio.read() === activeLevel) {
+        yield* wait(this.handleInterrupt(pin));
+      }
+    });
+  }
+
+  /**
+   * Stop delivering events from an interrupt pin
+   */
+  detachInterrupt(pin: InterruptPin): void {
+    const gpio = this.interruptLines.get(pin);
+    if (gpio) {
+      gpio.unwatch();
+      this.interruptLines.delete(pin);
+      this.pendingInterrupts.delete(pin);
+    }
+  }
+
+  // ==================== Tap Detection Methods ====================
+
+  /**
+   * Configure and enable single/double tap detection
+   * Threshold and time windows are converted using the current accelerometer
+   * full scale and ODR, and are re-applied whenever those change
+   */
+  configureTap(config: TapConfig): MaybeAsync<M, void> {
+    return this.run(function* () {
+      yield* this.writeTapConfig(config);
+      this.tapConfig = { ...config };
+      yield* this.enableBasicInterrupts();
+    });
+  }
+
+  /**
+   * Disable tap detection on all axes
+   */
+  disableTap(): MaybeAsync<M, void> {
+    return this.run(function* () {
+      let tapCfg0 = yield* wait(this.bus.readByte(Registers.TAP_CFG0));
+      tapCfg0 &= ~0x0e; // Clear TAP_X_EN, TAP_Y_EN, TAP_Z_EN bits
+      yield* wait(this.bus.writeByte(Registers.TAP_CFG0, tapCfg0));
+      this.tapConfig = null;
+    });
+  }
+
+  /**
+   * Read and decode the tap source register
+   * @returns The detected tap, or null if no tap occurred since the last read
+   */
+  readTapEvent(): MaybeAsync<M, TapEvent | null> {
+    return this.run(function* () {
+      // TAP_SRC: TAP_IA[6], SINGLE_TAP[5], DOUBLE_TAP[4], TAP_SIGN[3], X_TAP[2], Y_TAP[1], Z_TAP[0]
+      const tapSrc = yield* wait(this.bus.readByte(Registers.TAP_SRC));
+      if ((tapSrc & 0x40) === 0) {
+        return null;
+      }
+
+      const sensorAxis = (tapSrc & 0x04) !== 0 ? 'x' : (tapSrc & 0x02) !== 0 ? 'y' : 'z';
+      return {
+        type: (tapSrc & 0x10) !== 0 ? 'double' : 'single',
+        ...toDeviceAxis(this.mounting, sensorAxis, (tapSrc & 0x08) !== 0 ? -1 : 1),
+      };
+    });
+  }
+
+  // ==================== Wake-up and Activity Methods ====================
+
+  /**
+   * Configure wake-up detection
+   * Threshold and duration are converted using the current accelerometer
+   * full scale and ODR, and are re-applied whenever those change
+   */
+  configureWakeUp(config: WakeUpConfig): MaybeAsync<M, void> {
+    return this.run(function* () {
+      yield* this.writeWakeUpConfig(config);
+      this.wakeUpConfig = { ...config };
+      yield* this.enableBasicInterrupts();
+    });
+  }
+
+  /**
+   * Disable wake-up detection (threshold set to zero)
+   */
+  disableWakeUp(): MaybeAsync<M, void> {
+    return this.run(function* () {
+      let wakeUpThs = yield* wait(this.bus.readByte(Registers.WAKE_UP_THS));
+      wakeUpThs &= ~0x3f; // Clear WK_THS[5:0]
+      yield* wait(this.bus.writeByte(Registers.WAKE_UP_THS, wakeUpThs));
+      this.wakeUpConfig = null;
+    });
+  }
+
+  /**
+   * Enable activity/inactivity detection
+   * After `sleepDurationMs` below the wake-up threshold the accelerometer drops to
+   * 12.5 Hz (and the gyroscope sleeps, depending on mode) until motion resumes
+   */
+  configureActivity(config: ActivityConfig = {}): MaybeAsync<M, void> {
+    return this.run(function* () {
+      if (!this.wakeUpConfig) {
+        throw new Error('Wake-up detection must be configured before activity detection');
+      }
+      yield* this.writeActivityConfig(config);
+      this.activityConfig = { ...config };
+      yield* this.enableBasicInterrupts();
+    });
+  }
+
+  /**
+   * Disable activity/inactivity detection
+   */
+  disableActivity(): MaybeAsync<M, void> {
+    return this.run(function* () {
+      let tapCfg2 = yield* wait(this.bus.readByte(Registers.TAP_CFG2));
+      tapCfg2 &= ~0x60; // Clear INACT_EN[6:5]
+      yield* wait(this.bus.writeByte(Registers.TAP_CFG2, tapCfg2));
+      this.activityConfig = null;
+    });
+  }
+
+  /**
+   * Read and decode the wake-up source register
+   * Note that this also consumes a pending free-fall flag
+   * @returns Wake-up and activity/inactivity transitions since the last read
+   */
+  readActivityEvents(): MaybeAsync<M, ActivityEvent[]> {
+    return this.run(function* () {
+      return this.decodeActivityEvents(yield* wait(this.bus.readByte(Registers.WAKE_UP_SRC)));
+    });
+  }
+
+  // ==================== Free-fall Methods ====================
+
+  /**
+   * Configure and enable free-fall detection
+   * The duration is converted using the current accelerometer ODR and is
+   * re-applied whenever it changes
+   */
+  configureFreeFall(config: FreeFallConfig): MaybeAsync<M, void> {
+    return this.run(function* () {
+      yield* this.writeFreeFallConfig(config);
+      this.freeFallConfig = { ...config };
+      yield* this.enableBasicInterrupts();
+    });
+  }
+
+  /**
+   * Disable free-fall detection
+   */
+  disableFreeFall(): MaybeAsync<M, void> {
+    return this.run(function* () {
+      yield* wait(this.bus.writeByte(Registers.FREE_FALL, 0x00));
+      let wakeUpDur = yield* wait(this.bus.readByte(Registers.WAKE_UP_DUR));
+      wakeUpDur &= ~0x80; // Clear FF_DUR5 bit
+      yield* wait(this.bus.writeByte(Registers.WAKE_UP_DUR, wakeUpDur));
+      this.freeFallConfig = null;
+    });
+  }
+
+  /**
+   * Read the wake-up source register and decode a free-fall event
+   * Note that this also consumes pending wake-up/activity flags
+   * @returns The detected free-fall, or null if none occurred since the last read
+   */
+  readFreeFallEvent(): MaybeAsync<M, FreeFallEvent | null> {
+    return this.run(function* () {
+      return yield* this.decodeFreeFallEvent(yield* wait(this.bus.readByte(Registers.WAKE_UP_SRC)));
+    });
+  }
+
+  // ==================== Orientation Methods ====================
+
+  /**
+   * Configure the 6D/4D orientation function
+   */
+  configureOrientation(config: OrientationConfig): MaybeAsync<M, void> {
+    return this.run(function* () {
+      let tapThs6d = yield* wait(this.bus.readByte(Registers.TAP_THS_6D));
+      tapThs6d = (tapThs6d & 0x9f) | ((config.threshold & 0x03) << 5); // SIXD_THS[6:5]
+      if (config.fourD) {
+        tapThs6d |= 0x80; // Set D4D_EN bit
+      } else {
+        tapThs6d &= ~0x80;
+      }
+      yield* wait(this.bus.writeByte(Registers.TAP_THS_6D, tapThs6d));
+
+      let ctrl8 = yield* wait(this.bus.readByte(Registers.CTRL8_XL));
+      if (config.lowPassFilter) {
+        ctrl8 |= 0x01; // Set LOW_PASS_ON_6D bit
+      } else {
+        ctrl8 &= ~0x01;
+      }
+      yield* wait(this.bus.writeByte(Registers.CTRL8_XL, ctrl8));
+
+      this.lastOrientation = null;
+      yield* this.enableBasicInterrupts();
+    });
+  }
+
+  /**
+   * Read the current orientation from the 6D source register
+   * @returns The axis pointing up or down, or null if the position is not yet determined
+   */
+  readOrientation(): MaybeAsync<M, Orientation | null> {
+    return this.run(function* () {
+      return this.decodeOrientation(yield* wait(this.bus.readByte(Registers.D6D_SRC)));
+    });
+  }
+
+  // ==================== Pedometer Methods ====================
+
+  /**
+   * Enable the hardware step counter
+   */
+  enablePedometer(config: PedometerConfig = {}): MaybeAsync<M, void> {
+    return this.run(function* () {
+      if (config.debounceSteps !== undefined) {
+        if (!Number.isInteger(config.debounceSteps) || config.debounceSteps < 0 || config.debounceSteps > 0xff) {
+          throw new Error(`Invalid pedometer debounce ${config.debounceSteps}, expected an integer between 0 and 255`);
+        }
+        yield* this.writeAdvancedPage(EmbeddedAdvancedRegisters.PEDO_DEB_STEPS_CONF, [config.debounceSteps]);
+      }
+
+      // PEDO_CMD_REG: CARRY_COUNT_EN[3], FP_REJECTION_EN[2], AD_DET_EN[0]
+      const [pedoCmd] = yield* this.readAdvancedPage(EmbeddedAdvancedRegisters.PEDO_CMD_REG, 1);
+      const fpRejection = config.falsePositiveRejection === true;
+      yield* this.writeAdvancedPage(EmbeddedAdvancedRegisters.PEDO_CMD_REG, [updateBits(pedoCmd, 0x04, fpRejection)]);
+
+      yield* this.withRegisterBank(FUNC_CFG_EMBEDDED, function* () {
+        let embFuncEnB = yield* wait(this.bus.readByte(EmbeddedRegisters.EMB_FUNC_EN_B));
+        embFuncEnB = updateBits(embFuncEnB, 0x10, fpRejection); // PEDO_ADV_EN
+        yield* wait(this.bus.writeByte(EmbeddedRegisters.EMB_FUNC_EN_B, embFuncEnB));
+      });
+      yield* this.setEmbeddedFunction(0x08, true); // PEDO_EN
+    });
+  }
+
+  /**
+   * Disable the hardware step counter
+   */
+  disablePedometer(): MaybeAsync<M, void> {
+    return this.run(function* () {
+      yield* this.setEmbeddedFunction(0x08, false);
+    });
+  }
+
+  /**
+   * Read the 16-bit step counter
+   */
+  readStepCount(): MaybeAsync<M, number> {
+    return this.run(function* () {
+      return yield* this.withRegisterBank(FUNC_CFG_EMBEDDED, function* () {
+        const buffer = yield* wait(this.bus.readBlock(EmbeddedRegisters.STEP_COUNTER_L, 2));
+        return buffer.readUInt16LE(0);
+      });
+    });
+  }
+
+  /**
+   * Reset the step counter to zero
+   */
+  resetStepCount(): MaybeAsync<M, void> {
+    return this.run(function* () {
+      yield* this.withRegisterBank(FUNC_CFG_EMBEDDED, function* () {
+        let embFuncSrc = yield* wait(this.bus.readByte(EmbeddedRegisters.EMB_FUNC_SRC));
+        embFuncSrc |= 0x80; // Set PEDO_RST_STEP bit
+        yield* wait(this.bus.writeByte(EmbeddedRegisters.EMB_FUNC_SRC, embFuncSrc));
+      });
+    });
+  }
+
+  // ==================== Motion Detection Methods ====================
+
+  /**
+   * Enable the significant motion detector
+   * Fires when a motion that may lead to a change in location is detected
+   */
+  enableSignificantMotion(): MaybeAsync<M, void> {
+    return this.run(function* () {
+      yield* this.setEmbeddedFunction(0x20, true); // SIGN_MOTION_EN
+    });
+  }
+
+  /**
+   * Disable the significant motion detector
+   */
+  disableSignificantMotion(): MaybeAsync<M, void> {
+    return this.run(function* () {
+      yield* this.setEmbeddedFunction(0x20, false);
+    });
+  }
+
+  /**
+   * Enable the relative tilt detector
+   * Fires when the device is tilted by more than 35 degrees
+   */
+  enableTilt(): MaybeAsync<M, void> {
+    return this.run(function* () {
+      yield* this.setEmbeddedFunction(0x10, true); // TILT_EN
+    });
+  }
+
+  /**
+   * Disable the relative tilt detector
+   */
+  disableTilt(): MaybeAsync<M, void> {
+    return this.run(function* () {
+      yield* this.setEmbeddedFunction(0x10, false);
+    });
+  }
+
+  /**
+   * Read which embedded function events are pending
+   * With latched interrupts enabled, reading the status clears it
+   */
+  readEmbeddedFunctionStatus(): MaybeAsync<M, EmbeddedFunctionStatus> {
+    return this.run(function* () {
+      // EMB_FUNC_STATUS_MAINPAGE: IS_FSM_LC[7], IS_SIGMOT[5], IS_TILT[4], IS_STEP_DET[3]
+      const status = yield* wait(this.bus.readByte(Registers.EMB_FUNC_STATUS_MAINPAGE));
+      return {
+        stepDetected: (status & 0x08) !== 0,
+        tilt: (status & 0x10) !== 0,
+        significantMotion: (status & 0x20) !== 0,
+        fsmLongCounter: (status & 0x80) !== 0,
+      };
+    });
+  }
+
+  // ==================== Finite State Machine Methods ====================
+
+  /**
+   * Load Finite State Machine programs and enable them
+   * Programs are written consecutively to the embedded advanced pages starting
+   * at FSM_START_ADDRESS; program n is run by state machine n + 1
+   * @param programs - Compiled programs (e.g. exported from ST tooling), at most 16
+   */
+  loadFSMPrograms(programs: ArrayLike<number>[], config: FSMConfig = {}): MaybeAsync<M, void> {
+    return this.run(function* () {
+      if (programs.length === 0 || programs.length > FSM_MAX_PROGRAMS) {
+        throw new Error(`Invalid FSM program count ${programs.length}, expected between 1 and ${FSM_MAX_PROGRAMS}`);
+      }
+      const image: number[] = [];
+      for (const program of programs) {
+        for (let i = 0; i < program.length; i++) {
+          image.push(program[i]);
+        }
+      }
+      const timeout = config.longCounterTimeout ?? 0;
+
+      yield* this.withRegisterBank(FUNC_CFG_EMBEDDED, function* () {
+        // Stop the state machines while their programs are replaced
+        let embFuncEnB = yield* wait(this.bus.readByte(EmbeddedRegisters.EMB_FUNC_EN_B));
+        yield* wait(this.bus.writeByte(EmbeddedRegisters.EMB_FUNC_EN_B, embFuncEnB & ~0x01)); // Clear FSM_EN bit
+
+        if (config.odr !== undefined) {
+          yield* wait(this.setFSMODR(config.odr));
+        }
+
+        yield* this.writeAdvancedPage(EmbeddedAdvancedRegisters.FSM_LC_TIMEOUT_L, [timeout & 0xff, (timeout >> 8) & 0xff]);
+        yield* this.writeAdvancedPage(EmbeddedAdvancedRegisters.FSM_PROGRAMS, [programs.length]);
+        yield* this.writeAdvancedPage(EmbeddedAdvancedRegisters.FSM_START_ADD_L, [
+          FSM_START_ADDRESS & 0xff,
+          (FSM_START_ADDRESS >> 8) & 0xff,
+        ]);
+        yield* this.writeAdvancedPage(FSM_START_ADDRESS, image);
+
+        // Enable one state machine per loaded program
+        const mask = (1 << programs.length) - 1;
+        yield* wait(this.bus.writeByte(EmbeddedRegisters.FSM_ENABLE_A, mask & 0xff));
+        yield* wait(this.bus.writeByte(EmbeddedRegisters.FSM_ENABLE_B, (mask >> 8) & 0xff));
+
+        embFuncEnB = yield* wait(this.bus.readByte(EmbeddedRegisters.EMB_FUNC_EN_B));
+        yield* wait(this.bus.writeByte(EmbeddedRegisters.EMB_FUNC_EN_B, embFuncEnB | 0x01)); // Set FSM_EN bit
+
+        let embFuncInitB = yield* wait(this.bus.readByte(EmbeddedRegisters.EMB_FUNC_INIT_B));
+        embFuncInitB |= 0x01; // Set FSM_INIT bit
+        yield* wait(this.bus.writeByte(EmbeddedRegisters.EMB_FUNC_INIT_B, embFuncInitB));
+      });
+    });
+  }
+
+  /**
+   * Set the Finite State Machine output data rate
+   */
+  setFSMODR(odr: FSMODR): MaybeAsync<M, void> {
+    return this.run(function* () {
+      yield* this.withRegisterBank(FUNC_CFG_EMBEDDED, function* () {
+        let odrCfgB = yield* wait(this.bus.readByte(EmbeddedRegisters.EMB_FUNC_ODR_CFG_B));
+        odrCfgB = (odrCfgB & 0xc7) | ((odr & 0x07) << 3); // FSM_ODR[5:3]
+        yield* wait(this.bus.writeByte(EmbeddedRegisters.EMB_FUNC_ODR_CFG_B, odrCfgB));
+      });
+    });
+  }
+
+  /**
+   * Enable a single state machine
+   * @param fsm - State machine number (1-16)
+   */
+  enableFSM(fsm: number): MaybeAsync<M, void> {
+    return this.run(function* () {
+      yield* this.setFSMEnabled(fsm, true);
+    });
+  }
+
+  /**
+   * Disable a single state machine
+   * @param fsm - State machine number (1-16)
+   */
+  disableFSM(fsm: number): MaybeAsync<M, void> {
+    return this.run(function* () {
+      yield* this.setFSMEnabled(fsm, false);
+    });
+  }
+
+  /**
+   * Disable the Finite State Machine engine
+   */
+  disableAllFSM(): MaybeAsync<M, void> {
+    return this.run(function* () {
+      yield* this.withRegisterBank(FUNC_CFG_EMBEDDED, function* () {
+        let embFuncEnB = yield* wait(this.bus.readByte(EmbeddedRegisters.EMB_FUNC_EN_B));
+        embFuncEnB &= ~0x01; // Clear FSM_EN bit
+        yield* wait(this.bus.writeByte(EmbeddedRegisters.EMB_FUNC_EN_B, embFuncEnB));
+      });
+    });
+  }
+
+  /**
+   * Read the 16-bit FSM long counter
+   */
+  readFSMLongCounter(): MaybeAsync<M, number> {
+    return this.run(function* () {
+      return yield* this.withRegisterBank(FUNC_CFG_EMBEDDED, function* () {
+        const buffer = yield* wait(this.bus.readBlock(EmbeddedRegisters.FSM_LONG_COUNTER_L, 2));
+        return buffer.readUInt16LE(0);
+      });
+    });
+  }
+
+  /**
+   * Reset the FSM long counter to zero
+   */
+  resetFSMLongCounter(): MaybeAsync<M, void> {
+    return this.run(function* () {
+      yield* this.withRegisterBank(FUNC_CFG_EMBEDDED, function* () {
+        yield* wait(this.bus.writeByte(EmbeddedRegisters.FSM_LONG_COUNTER_CLEAR, 0x01)); // FSM_LC_CLR
+      });
+    });
+  }
+
+  /**
+   * Read the output registers of all 16 state machines
+   * Each byte holds the P_X, N_X, P_Y, N_Y, P_Z, N_Z, P_V, N_V flags (MSB first)
+   */
+  readFSMOutputs(): MaybeAsync<M, number[]> {
+    return this.run(function* () {
+      return yield* this.withRegisterBank(FUNC_CFG_EMBEDDED, function* () {
+        const buffer = yield* wait(this.bus.readBlock(EmbeddedRegisters.FSM_OUTS1, FSM_MAX_PROGRAMS));
+        return [...buffer];
+      });
+    });
+  }
+
+  /**
+   * Read which state machines generated an interrupt
+   * With latched interrupts enabled, reading the status clears it
+   * @returns 1-based state machine numbers
+   */
+  readFSMStatus(): MaybeAsync<M, number[]> {
+    return this.run(function* () {
+      const buffer = yield* wait(this.bus.readBlock(Registers.FSM_STATUS_A_MAINPAGE, 2));
+      const status = buffer.readUInt16LE(0);
+      const fired: number[] = [];
+      for (let i = 0; i < FSM_MAX_PROGRAMS; i++) {
+        if (status & (1 << i)) fired.push(i + 1);
+      }
+      return fired;
+    });
+  }
+
+  // ==================== Sensor Hub Methods ====================
+
+  /**
+   * Configure the external sensors read by the sensor hub (I2C master)
+   * The master is stopped while slaves are reconfigured; call startSensorHub() to begin polling
+   */
+  configureSensorHub(config: SensorHubConfig): MaybeAsync<M, void> {
+    return this.run(function* () {
+      const { slaves } = config;
+      if (slaves.length === 0 || slaves.length > SENSOR_HUB_MAX_SLAVES) {
+        throw new Error(`Invalid sensor hub slave count ${slaves.length}, expected between 1 and ${SENSOR_HUB_MAX_SLAVES}`);
+      }
+      const totalLength = slaves.reduce((sum, slave) => sum + slave.length, 0);
+      for (const slave of slaves) {
+        if (!Number.isInteger(slave.length) || slave.length < 1 || slave.length > 7) {
+          throw new Error(`Invalid sensor hub read length ${slave.length}, expected an integer between 1 and 7`);
+        }
+      }
+      if (totalLength > SENSOR_HUB_DATA_LENGTH) {
+        throw new Error(`Sensor hub reads ${totalLength} bytes, at most ${SENSOR_HUB_DATA_LENGTH} are available`);
+      }
+
+      yield* this.withRegisterBank(FUNC_CFG_SENSOR_HUB, function* () {
+        let masterConfig = yield* wait(this.bus.readByte(SensorHubRegisters.MASTER_CONFIG));
+        masterConfig &= ~0x04; // Clear MASTER_ON bit
+        yield* wait(this.bus.writeByte(SensorHubRegisters.MASTER_CONFIG, masterConfig));
+
+        for (let i = 0; i < SENSOR_HUB_MAX_SLAVES; i++) {
+          const slave = slaves[i];
+          const base = SensorHubRegisters.SLV0_ADD + i * 3;
+          // SLVx_CONFIG: SHUB_ODR[7:6] (slave 0 only), BATCH_EXT_SENS_x_EN[3], SLAVEx_NUMOP[2:0]
+          let slaveConfig = i === 0 ? ((config.odr ?? SensorHubODR.Hz_104) & 0x03) << 6 : 0;
+          if (slave) {
+            yield* wait(this.bus.writeByte(base, ((slave.address & 0x7f) << 1) | 0x01)); // rw_x = read
+            yield* wait(this.bus.writeByte(base + 1, slave.register & 0xff));
+            slaveConfig |= (slave.batchToFIFO ? 0x08 : 0) | slave.length;
+          }
+          yield* wait(this.bus.writeByte(base + 2, slaveConfig));
+        }
+
+        // MASTER_CONFIG: SHUB_PU_EN[3], AUX_SENS_ON[1:0] = number of slaves - 1
+        masterConfig = (masterConfig & 0xf4) | (config.pullUp ? 0x08 : 0) | ((slaves.length - 1) & 0x03);
+        yield* wait(this.bus.writeByte(SensorHubRegisters.MASTER_CONFIG, masterConfig));
+      });
+
+      this.sensorHubSlaves = slaves.map((slave) => ({ ...slave }));
+    });
+  }
+
+  /**
+   * Start polling the configured slaves
+   * The sensor hub is triggered by the accelerometer, which must be enabled
+   */
+  startSensorHub(): MaybeAsync<M, void> {
+    return this.run(function* () {
+      yield* this.setSensorHubMaster(true);
+    });
+  }
+
+  /**
+   * Stop polling the configured slaves
+   */
+  stopSensorHub(): MaybeAsync<M, void> {
+    return this.run(function* () {
+      yield* this.setSensorHubMaster(false);
+    });
+  }
+
+  /**
+   * Write a register of an external sensor through the sensor hub
+   * Uses slave 0 in write-once mode and restores its read configuration afterwards
+   * @param address - 7-bit I2C address on the auxiliary bus
+   * @param timeoutMs - Time to wait for the write to complete
+   */
+  writeSensorHubRegister(address: number, register: number, value: number, timeoutMs: number = 100): MaybeAsync<M, void> {
+    return this.run(function* () {
+      yield* this.withRegisterBank(FUNC_CFG_SENSOR_HUB, function* () {
+        const saved = [...(yield* wait(this.bus.readBlock(SensorHubRegisters.SLV0_ADD, 3)))];
+        const masterConfig = yield* wait(this.bus.readByte(SensorHubRegisters.MASTER_CONFIG));
+
+        try {
+          yield* wait(this.bus.writeByte(SensorHubRegisters.MASTER_CONFIG, masterConfig & ~0x04)); // MASTER_ON off
+          yield* wait(this.bus.writeByte(SensorHubRegisters.SLV0_ADD, (address & 0x7f) << 1)); // rw_0 = write
+          yield* wait(this.bus.writeByte(SensorHubRegisters.SLV0_SUBADD, register & 0xff));
+          yield* wait(this.bus.writeByte(SensorHubRegisters.SLV0_CONFIG, saved[2] & 0xc0)); // Keep SHUB_ODR, no reads
+          yield* wait(this.bus.writeByte(SensorHubRegisters.DATAWRITE_SLV0, value & 0xff));
+          yield* wait(this.bus.writeByte(SensorHubRegisters.MASTER_CONFIG, (masterConfig & 0xfc) | 0x44)); // WRITE_ONCE, MASTER_ON
+
+          // STATUS_MASTER: WR_ONCE_DONE[7], SLAVE0_NACK[3]
+          const deadline = Date.now() + timeoutMs;
+          let status = yield* wait(this.bus.readByte(SensorHubRegisters.STATUS_MASTER));
+          while ((status & 0x80) === 0) {
+            if (Date.now() > deadline) {
+              throw new Error(`Sensor hub write to 0x${address.toString(16)} timed out`);
+            }
+            yield* wait(this.delay(1));
+            status = yield* wait(this.bus.readByte(SensorHubRegisters.STATUS_MASTER));
+          }
+          if (status & 0x08) {
+            throw new Error(`Sensor hub slave 0x${address.toString(16)} did not acknowledge`);
+          }
+        } finally {
+          yield* wait(this.bus.writeByte(SensorHubRegisters.MASTER_CONFIG, masterConfig & ~0x44));
+          yield* wait(this.bus.writeByte(SensorHubRegisters.SLV0_ADD, saved[0]));
+          yield* wait(this.bus.writeByte(SensorHubRegisters.SLV0_SUBADD, saved[1]));
+          yield* wait(this.bus.writeByte(SensorHubRegisters.SLV0_CONFIG, saved[2]));
+          yield* wait(this.bus.writeByte(SensorHubRegisters.MASTER_CONFIG, masterConfig));
+        }
+      });
+    });
+  }
+
+  /**
+   * Read the bytes collected from the external sensors
+   * @returns One buffer per configured slave, in slave order
+   */
+  readSensorHubData(): MaybeAsync<M, Buffer[]> {
+    return this.run(function* () {
+      const totalLength = this.sensorHubSlaves.reduce((sum, slave) => sum + slave.length, 0);
+      if (totalLength === 0) {
+        return [];
+      }
+
+      const buffer = yield* this.withRegisterBank(FUNC_CFG_SENSOR_HUB, () =>
+        wait(this.bus.readBlock(SensorHubRegisters.SENSOR_HUB_1, totalLength))
+      );
+
+      const data: Buffer[] = [];
+      let offset = 0;
+      for (const slave of this.sensorHubSlaves) {
+        data.push(Buffer.from(buffer.subarray(offset, offset + slave.length)));
+        offset += slave.length;
+      }
+      return data;
+    });
+  }
+
+  /**
+   * Get sensor hub status flags
+   */
+  getSensorHubStatus(): MaybeAsync<M, SensorHubStatus> {
+    return this.run(function* () {
+      // STATUS_MASTER_MAINPAGE: WR_ONCE_DONE[7], SLAVE3_NACK[6]..SLAVE0_NACK[3], SENS_HUB_ENDOP[0]
+      const status = yield* wait(this.bus.readByte(Registers.STATUS_MASTER_MAINPAGE));
+      return {
+        endOfOperation: (status & 0x01) !== 0,
+        slaveNack: [0x08, 0x10, 0x20, 0x40].map((mask) => (status & mask) !== 0),
+        writeOnceDone: (status & 0x80) !== 0,
+      };
+    });
+  }
+
+  // ==================== Self-Test Methods ====================
+
+  /**
+   * Run the datasheet self-test procedure
+   * The device must be still. The control registers are saved, the accelerometer
+   * is tested at 52 Hz / ±4 g and the gyroscope at 208 Hz / ±2000 dps with positive
+   * and negative self-test, then the previous configuration is restored.
+   * @returns Output change per axis compared against the datasheet limits
+   */
+  selfTest(options: SelfTestOptions = {}): MaybeAsync<M, SelfTestReport> {
+    return this.run(function* () {
+      const samples = options.samples ?? 5;
+      const saved = yield* wait(this.bus.readBlock(Registers.CTRL1_XL, 10));
+      const report: SelfTestReport = { pass: true };
+
+      try {
+        // BDU on, high-performance mode, no filtering or gyro sleep
+        yield* wait(this.bus.writeByte(Registers.CTRL3_C, saved[2] | 0x44));
+        yield* wait(this.bus.writeByte(Registers.CTRL4_C, saved[3] & ~0x42));
+        yield* wait(this.bus.writeByte(Registers.CTRL5_C, 0x00));
+        yield* wait(this.bus.writeByte(Registers.CTRL6_C, 0x00));
+        yield* wait(this.bus.writeByte(Registers.CTRL7_G, 0x00));
+        yield* wait(this.bus.writeByte(Registers.CTRL8_XL, 0x00));
+
+        if (options.accel ?? true) {
+          yield* this.writeGyroConfig(GyroODR.OFF, GyroFullScale.DPS_2000);
+          yield* this.writeAccelConfig(AccelODR.Hz_52, AccelFullScale.G_4);
+          report.accel = yield* this.runSelfTest(
+            (mode) => wait(this.setAccelSelfTest(mode)),
+            [AccelSelfTest.POSITIVE, AccelSelfTest.NEGATIVE],
+            () => wait(this.isAccelDataReady()),
+            () => wait(this.readRawAccel()),
+            AccelSensitivity[AccelFullScale.G_4],
+            ACCEL_SELF_TEST_MIN_MG,
+            ACCEL_SELF_TEST_MAX_MG,
+            samples
+          );
+        }
+
+        if (options.gyro ?? true) {
+          yield* this.writeAccelConfig(AccelODR.OFF, AccelFullScale.G_4);
+          yield* this.writeGyroConfig(GyroODR.Hz_208, GyroFullScale.DPS_2000);
+          report.gyro = yield* this.runSelfTest(
+            (mode) => wait(this.setGyroSelfTest(mode)),
+            [GyroSelfTest.POSITIVE, GyroSelfTest.NEGATIVE],
+            () => wait(this.isGyroDataReady()),
+            () => wait(this.readRawGyro()),
+            GyroSensitivity[GyroFullScale.DPS_2000],
+            GYRO_SELF_TEST_MIN_MDPS,
+            GYRO_SELF_TEST_MAX_MDPS,
+            samples
+          );
+        }
+      } finally {
+        // Self-test off before the previous ODRs come back
+        yield* wait(this.bus.writeByte(Registers.CTRL5_C, saved[4] & ~0x0f));
+        for (let i = 0; i < saved.length; i++) {
+          yield* wait(this.bus.writeByte(Registers.CTRL1_XL + i, saved[i]));
+        }
+      }
+
+      report.pass = (report.accel?.pass ?? true) && (report.gyro?.pass ?? true);
+      return report;
+    });
+  }
+
+  /**
+   * Set the accelerometer self-test mode
+   */
+  setAccelSelfTest(mode: AccelSelfTest): MaybeAsync<M, void> {
+    return this.run(function* () {
+      const ctrl5 = yield* wait(this.bus.readByte(Registers.CTRL5_C));
+      yield* wait(this.bus.writeByte(Registers.CTRL5_C, (ctrl5 & ~0x03) | (mode & 0x03)));
+    });
+  }
+
+  /**
+   * Set the gyroscope self-test mode
+   */
+  setGyroSelfTest(mode: GyroSelfTest): MaybeAsync<M, void> {
+    return this.run(function* () {
+      const ctrl5 = yield* wait(this.bus.readByte(Registers.CTRL5_C));
+      yield* wait(this.bus.writeByte(Registers.CTRL5_C, (ctrl5 & ~0x0c) | ((mode & 0x03) << 2)));
+    });
+  }
+
+  // ==================== Calibration Methods ====================
+
+  /**
+   * Measure the accelerometer zero-g offset and write it to the user offset registers
+   * The device must be stationary with `gravityAxis` pointing up and the accelerometer enabled
+   * @returns The applied offset in mg, to be stored and passed back via `accelOffset` or setAccelOffset()
+   */
+  calibrateAccelOffset(options: AccelOffsetCalibrationOptions = {}): MaybeAsync<M, Vector3D> {
+    return this.run(function* () {
+      const gravityAxis = options.gravityAxis ?? 'Z_UP';
+      const sampleCount = options.samples ?? 100;
+
+      // Measure without the current correction
+      const ctrl7 = yield* wait(this.bus.readByte(Registers.CTRL7_G));
+      yield* this.setAccelOffsetEnabled(false);
+      let samples: Vector3D[];
+      try {
+        samples = yield* this.collectSamples(
+          sampleCount,
+          () => wait(this.isAccelDataReady()),
+          () => this.readUncorrectedAccel()
+        );
+      } finally {
+        // Previous correction back on, so a failed calibration leaves it in place
+        yield* wait(this.bus.writeByte(Registers.CTRL7_G, ctrl7));
+      }
+      const mean = averageVectors(samples);
+
+      // The offset registers work in the sensor frame
+      const gravity = toSensorFrame(this.mounting, gravityVector(gravityAxis));
+      const expected = { x: gravity.x * 1000, y: gravity.y * 1000, z: gravity.z * 1000 };
+
+      return yield* wait(this.setAccelOffset({
+        x: mean.x - expected.x,
+        y: mean.y - expected.y,
+        z: mean.z - expected.z,
+      }));
+    });
+  }
+
+  /**
+   * Write an accelerometer offset to the user offset registers and enable it
+   * The offset is subtracted from the output in hardware, so FIFO data and
+   * embedded functions see corrected values too
+   * @param offset - Offset in mg; the finest weight that fits is selected
+   * @returns The offset actually applied, after quantization
+   */
+  setAccelOffset(offset: Vector3D): MaybeAsync<M, Vector3D> {
+    return this.run(function* () {
+      const largest = Math.max(Math.abs(offset.x), Math.abs(offset.y), Math.abs(offset.z));
+      const weight = largest <= 127 * AccelOffsetWeightMg[AccelOffsetWeight.FINE]
+        ? AccelOffsetWeight.FINE
+        : AccelOffsetWeight.COARSE;
+      const lsb = AccelOffsetWeightMg[weight];
+      const quantize = (value: number) => clamp(Math.round(value / lsb), -127, 127);
+
+      let ctrl6 = yield* wait(this.bus.readByte(Registers.CTRL6_C));
+      ctrl6 = updateBits(ctrl6, 0x08, weight === AccelOffsetWeight.COARSE); // USR_OFF_W
+      yield* wait(this.bus.writeByte(Registers.CTRL6_C, ctrl6));
+
+      const buffer = Buffer.alloc(3);
+      buffer.writeInt8(quantize(offset.x), 0);
+      buffer.writeInt8(quantize(offset.y), 1);
+      buffer.writeInt8(quantize(offset.z), 2);
+      yield* wait(this.bus.writeBlock(Registers.X_OFS_USR, buffer));
+
+      yield* this.setAccelOffsetEnabled(true);
+
+      const applied = {
+        x: buffer.readInt8(0) * lsb,
+        y: buffer.readInt8(1) * lsb,
+        z: buffer.readInt8(2) * lsb,
+      };
+      this.accelOffset = applied;
+      return { ...applied };
+    });
+  }
+
+  /**
+   * Read the accelerometer offset from the user offset registers
+   * @returns Offset in mg (zero when the correction is disabled)
+   */
+  getAccelOffset(): MaybeAsync<M, Vector3D> {
+    return this.run(function* () {
+      if (((yield* wait(this.bus.readByte(Registers.CTRL7_G))) & 0x02) === 0) {
+        return { x: 0, y: 0, z: 0 };
+      }
+      const ctrl6 = yield* wait(this.bus.readByte(Registers.CTRL6_C));
+      const weight = (ctrl6 & 0x08) !== 0 ? AccelOffsetWeight.COARSE : AccelOffsetWeight.FINE;
+      const lsb = AccelOffsetWeightMg[weight];
+      const buffer = yield* wait(this.bus.readBlock(Registers.X_OFS_USR, 3));
+      return {
+        x: buffer.readInt8(0) * lsb,
+        y: buffer.readInt8(1) * lsb,
+        z: buffer.readInt8(2) * lsb,
+      };
+    });
+  }
+
+  /**
+   * Stop applying the accelerometer user offset
+   */
+  clearAccelOffset(): MaybeAsync<M, void> {
+    return this.run(function* () {
+      yield* this.setAccelOffsetEnabled(false);
+      this.accelOffset = null;
+    });
+  }
+
+  /**
+   * Estimate the gyroscope bias for the active full scale
+   * The device must be stationary with the gyroscope enabled; the window is
+   * rejected if any axis varies more than `maxStdDev`
+   * @returns The bias and noise measured over the window, sensor frame
+   */
+  calibrateGyroBias(options: GyroBiasCalibrationOptions = {}): MaybeAsync<M, GyroBiasCalibration> {
+    return this.run(function* () {
+      const sampleCount = options.samples ?? 100;
+      const maxStdDev = options.maxStdDev ?? 500;
+
+      const samples = yield* this.collectSamples(
+        sampleCount,
+        () => wait(this.isGyroDataReady()),
+        () => this.readUncompensatedGyro()
+      );
+      const bias = averageVectors(samples);
+      const stdDev = stdDevVectors(samples, bias);
+      const largest = Math.max(stdDev.x, stdDev.y, stdDev.z);
+      if (largest > maxStdDev) {
+        throw new Error(
+          `Motion detected during gyro calibration (std dev ${largest.toFixed(1)} mdps > ${maxStdDev} mdps), keep the device still`
+        );
+      }
+
+      this.gyroBias.set(this.gyroFS, bias);
+      this.gyroTrackingWindow = [];
+      return { fullScale: this.gyroFS, bias: { ...bias }, stdDev };
+    });
+  }
+
+  /**
+   * Set the gyroscope bias subtracted from readings
+   * @param bias - Bias in mdps, sensor frame (applied before the mounting rotation)
+   * @param fullScale - Full scale the bias applies to (default: active full scale)
+   */
+  setGyroBias(bias: Vector3D, fullScale: GyroFullScale = this.gyroFS): void {
+    this.gyroBias.set(fullScale, { ...bias });
+  }
+
+  /**
+   * Get the gyroscope bias in mdps and the sensor frame, or null if none is set for the full scale
+   * @param fullScale - Full scale to query (default: active full scale)
+   */
+  getGyroBias(fullScale: GyroFullScale = this.gyroFS): Vector3D | null {
+    const bias = this.gyroBias.get(fullScale);
+    return bias ? { ...bias } : null;
+  }
+
+  /**
+   * Remove the gyroscope bias for one full scale, or for all when omitted
+   */
+  clearGyroBias(fullScale?: GyroFullScale): void {
+    if (fullScale === undefined) {
+      this.gyroBias.clear();
+    } else {
+      this.gyroBias.delete(fullScale);
+    }
+    this.gyroTrackingWindow = [];
+  }
+
+  /**
+   * Continuously refine the gyroscope bias from gyroscope readings taken while the device is still
+   * Every read through readGyro(), readIMU() or the FIFO feeds the tracker
+   */
+  enableGyroBiasTracking(options: GyroBiasTrackingOptions = {}): void {
+    this.gyroBiasTracking = {
+      windowSize: options.windowSize ?? 50,
+      maxStdDev: options.maxStdDev ?? 500,
+      alpha: clamp(options.alpha ?? 0.02, 0, 1),
+    };
+    this.gyroTrackingWindow = [];
+  }
+
+  /**
+   * Stop refining the gyroscope bias; the current bias stays applied
+   */
+  disableGyroBiasTracking(): void {
+    this.gyroBiasTracking = null;
+    this.gyroTrackingWindow = [];
+  }
+
+  /**
+   * Run the guided six-position accelerometer calibration
+   * `waitForPosition` is awaited before each position; resolve it once the
+   * device rests with the requested axis pointing up. The accelerometer must be enabled.
+   * @returns The applied calibration, including the residual error
+   */
+  async calibrateAccelSixPosition(
+    waitForPosition: CalibrationPositionPrompt,
+    options: SixPositionCalibrationOptions = {}
+  ): Promise<AccelCalibration> {
+    const positions: AccelCalibrationPosition[] = [];
+    for (let i = 0; i < SIX_POSITION_ORDER.length; i++) {
+      await waitForPosition(SIX_POSITION_ORDER[i], i + 1);
+      positions.push(await this.collectAccelCalibrationPosition(SIX_POSITION_ORDER[i], options));
+    }
+
+    const calibration = solveAccelCalibration(positions);
+    this.setAccelCalibration(calibration);
+    return calibration;
+  }
+
+  /**
+   * Average uncorrected accelerometer readings (g) for one calibration position
+   * Use with solveAccelCalibration() to drive the workflow manually
+   */
+  collectAccelCalibrationPosition(
+    orientation: Orientation,
+    options: SixPositionCalibrationOptions = {}
+  ): MaybeAsync<M, AccelCalibrationPosition> {
+    return this.run(function* () {
+      const sampleCount = options.samples ?? 100;
+      const maxStdDev = options.maxStdDev ?? 0.02;
+
+      const samples = yield* this.collectSamples(sampleCount, () => wait(this.isAccelDataReady()), function* () {
+        const mg = yield* this.readUncorrectedAccel();
+        return { x: mg.x / 1000, y: mg.y / 1000, z: mg.z / 1000 };
+      });
+      const mean = averageVectors(samples);
+      const stdDev = stdDevVectors(samples, mean);
+
+      const largest = Math.max(stdDev.x, stdDev.y, stdDev.z);
+      if (largest > maxStdDev) {
+        throw new Error(
+          `Motion detected in position ${orientation} (std dev ${largest.toFixed(3)} g > ${maxStdDev} g), keep the device still`
+        );
+      }
+
+      // The requested axis must carry most of gravity, in the right direction
+      const expected = toSensorFrame(this.mounting, gravityVector(orientation));
+      if (mean.x * expected.x + mean.y * expected.y + mean.z * expected.z < 0.7) {
+        throw new Error(`Device is not in the ${orientation} position`);
+      }
+
+      return { orientation, mean, stdDev, expected };
+    });
+  }
+
+  /**
+   * Set or clear (null) the six-position accelerometer calibration
+   */
+  setAccelCalibration(calibration: AccelCalibration | null): void {
+    this.accelCalibration = calibration ? parseAccelCalibration(JSON.stringify(calibration)) : null;
+  }
+
+  /**
+   * Get the six-position accelerometer calibration, or null if none is set
+   */
+  getAccelCalibration(): AccelCalibration | null {
+    return this.accelCalibration ? parseAccelCalibration(JSON.stringify(this.accelCalibration)) : null;
+  }
+
+  /**
+   * Export the six-position accelerometer calibration as JSON
+   */
+  exportAccelCalibration(): string {
+    if (!this.accelCalibration) {
+      throw new Error('No accelerometer calibration set');
+    }
+    return JSON.stringify(this.accelCalibration, null, 2);
+  }
+
+  /**
+   * Import and apply a six-position accelerometer calibration exported as JSON
+   */
+  importAccelCalibration(json: string): AccelCalibration {
+    this.setAccelCalibration(parseAccelCalibration(json));
+    return this.getAccelCalibration()!;
+  }
+
+  // ==================== Configuration Script Methods ====================
+
+  /**
+   * Apply a .ucf register script exported by ST tools (e.g. an FSM configuration)
+   * The main register page is restored afterwards, even if a write fails
+   * @param script - Contents of the .ucf file
+   */
+  loadUCF(script: string): MaybeAsync<M, void> {
+    return this.run(function* () {
+      const commands = parseUCF(script);
+      try {
+        for (const command of commands) {
+          if (command.type === 'wait') {
+            yield* wait(this.delay(command.ms));
+          } else {
+            yield* wait(this.bus.writeByte(command.register, command.value));
+          }
+        }
+      } finally {
+        yield* wait(this.bus.writeByte(Registers.FUNC_CFG_ACCESS, 0x00));
+        this.registerBank = 0;
+      }
+    });
+  }
+
+  /**
+   * Check that the registers written by a .ucf script hold the expected values
+   * Page-control and self-clearing registers are skipped
+   * @returns Registers whose current value differs from the script, empty if it was applied
+   */
+  verifyUCF(script: string): MaybeAsync<M, UCFMismatch[]> {
+    return this.run(function* () {
+      const expected = simulateUCF(parseUCF(script));
+      const mismatches: UCFMismatch[] = [];
+
+      for (const [key, value] of expected) {
+        const [page, addressText] = key.split(':') as [UCFMismatch['page'], string];
+        const address = Number(addressText);
+        let actual: number;
+        if (page === 'advanced') {
+          actual = (yield* this.readAdvancedPage(address, 1))[0];
+        } else if (page === 'embedded') {
+          actual = yield* this.withRegisterBank(FUNC_CFG_EMBEDDED, () => wait(this.bus.readByte(address)));
+        } else if (page === 'sensorHub') {
+          actual = yield* this.withRegisterBank(FUNC_CFG_SENSOR_HUB, () => wait(this.bus.readByte(address)));
+        } else {
+          actual = yield* wait(this.bus.readByte(address));
+        }
+
+        const mask = page === 'main' && address === Registers.CTRL3_C ? 0x7e : 0xff; // BOOT/SW_RESET self-clear
+        if ((actual & mask) !== (value & mask)) {
+          mismatches.push({ page, address, expected: value, actual });
+        }
+      }
+      return mismatches;
+    });
+  }
+
+  // ==================== Low-level Register Access ====================
+
+  /**
+   * Read a register
+   */
+  readRegister(register: number): MaybeAsync<M, number> {
+    return this.run(function* () {
+      return yield* wait(this.bus.readByte(register));
+    });
+  }
+
+  /**
+   * Write a register
+   */
+  writeRegister(register: number, value: number): MaybeAsync<M, void> {
+    return this.run(function* () {
+      yield* wait(this.bus.writeByte(register, value));
+    });
+  }
+
+  /**
+   * Read multiple registers
+   */
+  readRegisters(register: number, length: number): MaybeAsync<M, Buffer> {
+    return this.run(function* () {
+      return yield* wait(this.bus.readBlock(register, length));
+    });
+  }
+
+  /**
+   * Read a register in the embedded functions page
+   */
+  readEmbeddedRegister(register: number): MaybeAsync<M, number> {
+    return this.run(function* () {
+      return yield* this.withRegisterBank(FUNC_CFG_EMBEDDED, () => wait(this.bus.readByte(register)));
+    });
+  }
+
+  /**
+   * Write a register in the embedded functions page
+   */
+  writeEmbeddedRegister(register: number, value: number): MaybeAsync<M, void> {
+    return this.run(function* () {
+      yield* this.withRegisterBank(FUNC_CFG_EMBEDDED, () => wait(this.bus.writeByte(register, value)));
+    });
+  }
+
+  // ==================== Private Helper Methods ====================
+
+  /**
+   * Read a sample in mg, mdps and °C, updating the fusion filter
+   */
+  private *readSample(includeTemp: boolean, includeTimestamp: boolean): Steps<IMUData> {
+    const data: IMUData = {
+      accel: yield* wait(this.readAccel('mg')),
+      gyro: yield* wait(this.readGyro('mdps')),
+    };
+
+    if (includeTemp) {
+      data.temperature = yield* wait(this.readTemperature('C'));
+    }
+
+    if (includeTimestamp) {
+      data.timestamp = yield* wait(this.readTimestamp());
+    }
+
+    if (this.fusion) {
+      // Time the filter by the timestamp counter whenever it runs
+      const timestamp = data.timestamp ?? (this.timestampEnabled ? yield* wait(this.readTimestamp()) : undefined);
+      data.attitude = this.fuse({ ...data, timestamp });
+    }
+
+    return data;
+  }
+
+  /**
+   * Update the fusion filter with a sample in mg and mdps
+   */
+  private fuse(data: IMUData): AttitudeEstimate {
+    const dt = data.timestamp === undefined ? 1 / (this.fusionSampleRate ?? this.fusionRate()) : undefined;
+    return this.fusion!.update(data, undefined, dt);
+  }
+
+  /**
+   * Nominal fusion sample rate: gyroscope ODR, accelerometer ODR when the gyroscope is off
+   */
+  private fusionRate(): number {
+    return (this.gyroEnabled ? this.getGyroODR() : 0) || this.getAccelODR() || AccelODRHz[AccelODR.Hz_104];
+  }
+
+  /**
+   * Run `fn` with the given FUNC_CFG_ACCESS bank selected
+   * The previous page is always restored, even if `fn` throws
+   */
+  private *withRegisterBank<T>(bank: number, fn: (this: this) => Steps<T>): Steps<T> {
+    if (bank === this.registerBank) {
+      return yield* fn.call(this); // Nested access to the bank that is already selected
+    }
+
+    const previous = this.registerBank;
+    yield* wait(this.bus.writeByte(Registers.FUNC_CFG_ACCESS, bank));
+    this.registerBank = bank;
+    try {
+      return yield* fn.call(this);
+    } finally {
+      this.registerBank = previous;
+      yield* wait(this.bus.writeByte(Registers.FUNC_CFG_ACCESS, previous));
+    }
+  }
+
+  private *runSelfTest(
+    setMode: (mode: number) => Steps<void>,
+    modes: [number, number],
+    isReady: () => Steps<boolean>,
+    readRaw: () => Steps<RawVector3D>,
+    sensitivity: number,
+    min: number,
+    max: number,
+    samples: number
+  ): Steps<SelfTestSensorResult> {
+    const normal = yield* this.measureSelfTest(isReady, readRaw, sensitivity, samples);
+    yield* setMode(modes[0]);
+    const positive = yield* this.measureSelfTest(isReady, readRaw, sensitivity, samples);
+    yield* setMode(modes[1]);
+    const negative = yield* this.measureSelfTest(isReady, readRaw, sensitivity, samples);
+    yield* setMode(0);
+
+    const axisResult = (axis: Axis) => {
+      const positiveChange = Math.abs(positive[axis] - normal[axis]);
+      const negativeChange = Math.abs(negative[axis] - normal[axis]);
+      const inRange = (change: number) => change >= min && change <= max;
+      return {
+        positive: positiveChange,
+        negative: negativeChange,
+        pass: inRange(positiveChange) && inRange(negativeChange),
+      };
+    };
+
+    const x = axisResult('x');
+    const y = axisResult('y');
+    const z = axisResult('z');
+    return { pass: x.pass && y.pass && z.pass, min, max, x, y, z };
+  }
+
+  /**
+   * Wait for the output to settle, discard the first sample, then average
+   */
+  private *measureSelfTest(
+    isReady: () => Steps<boolean>,
+    readRaw: () => Steps<RawVector3D>,
+    sensitivity: number,
+    samples: number
+  ): Steps<Vector3D> {
+    yield* wait(this.delay(100));
+    yield* this.collectSamples(1, isReady, readRaw);
+    const mean = averageVectors(yield* this.collectSamples(samples, isReady, readRaw));
+    return { x: mean.x * sensitivity, y: mean.y * sensitivity, z: mean.z * sensitivity };
+  }
+
+  private *readUncorrectedAccel(): Steps<Vector3D> {
+    const raw = yield* wait(this.readRawAccel());
+    const sensitivity = this.getAccelSensitivity();
+    return {
+      x: raw.x * sensitivity,
+      y: raw.y * sensitivity,
+      z: raw.z * sensitivity,
+    };
+  }
+
+  private correctAccel(mg: Vector3D): Vector3D {
+    return this.accelCalibration ? applyAccelCalibration(this.accelCalibration, mg, 1000) : mg;
+  }
+
+  private *readUncompensatedGyro(): Steps<Vector3D> {
+    const raw = yield* wait(this.readRawGyro());
+    const sensitivity = this.getGyroSensitivity();
+    return {
+      x: raw.x * sensitivity,
+      y: raw.y * sensitivity,
+      z: raw.z * sensitivity,
+    };
+  }
+
+  private compensateGyro(mdps: Vector3D): Vector3D {
+    if (this.gyroBiasTracking) {
+      this.trackGyroBias(mdps);
+    }
+    const bias = this.gyroBias.get(this.gyroFS);
+    if (!bias) return mdps;
+    return { x: mdps.x - bias.x, y: mdps.y - bias.y, z: mdps.z - bias.z };
+  }
+
+  private trackGyroBias(sample: Vector3D): void {
+    const tracking = this.gyroBiasTracking!;
+    const window = this.gyroTrackingWindow;
+    window.push(sample);
+    if (window.length < tracking.windowSize) return;
+
+    const mean = averageVectors(window);
+    const stdDev = stdDevVectors(window, mean);
+    this.gyroTrackingWindow = [];
+    if (Math.max(stdDev.x, stdDev.y, stdDev.z) > tracking.maxStdDev) return;
+
+    // Blend each still window into the bias; the first one seeds it
+    const bias = this.gyroBias.get(this.gyroFS);
+    if (!bias) {
+      this.gyroBias.set(this.gyroFS, mean);
+      return;
+    }
+    this.gyroBias.set(this.gyroFS, {
+      x: bias.x + tracking.alpha * (mean.x - bias.x),
+      y: bias.y + tracking.alpha * (mean.y - bias.y),
+      z: bias.z + tracking.alpha * (mean.z - bias.z),
+    });
+  }
+
+  private *setAccelOffsetEnabled(enable: boolean): Steps<void> {
+    let ctrl7 = yield* wait(this.bus.readByte(Registers.CTRL7_G));
+    ctrl7 = updateBits(ctrl7, 0x02, enable); // USR_OFF_ON_OUT
+    yield* wait(this.bus.writeByte(Registers.CTRL7_G, ctrl7));
+  }
+
+  /**
+   * Collect `count` readings, waiting for fresh data before each one
+   */
+  private *collectSamples<T>(
+    count: number,
+    isReady: () => Steps<boolean>,
+    read: (this: this) => Steps<T>,
+    timeoutMs: number = 1000
+  ): Steps<T[]> {
+    const samples: T[] = [];
+    while (samples.length < count) {
+      const deadline = Date.now() + timeoutMs;
+      while (!(yield* isReady())) {
+        if (Date.now() > deadline) {
+          throw new Error('Timed out waiting for sensor data, is the sensor enabled?');
+        }
+        yield* wait(this.delay(1));
+      }
+      samples.push(yield* read.call(this));
+    }
+    return samples;
+  }
+
+  private *setSensorHubMaster(enable: boolean): Steps<void> {
+    yield* this.withRegisterBank(FUNC_CFG_SENSOR_HUB, function* () {
+      let masterConfig = yield* wait(this.bus.readByte(SensorHubRegisters.MASTER_CONFIG));
+      masterConfig = updateBits(masterConfig, 0x04, enable); // MASTER_ON
+      yield* wait(this.bus.writeByte(SensorHubRegisters.MASTER_CONFIG, masterConfig));
+    });
+  }
+
+  /**
+   * Set or clear an enable bit in EMB_FUNC_EN_A
+   */
+  private *setEmbeddedFunction(mask: number, enable: boolean): Steps<void> {
+    yield* this.withRegisterBank(FUNC_CFG_EMBEDDED, function* () {
+      let embFuncEnA = yield* wait(this.bus.readByte(EmbeddedRegisters.EMB_FUNC_EN_A));
+      embFuncEnA = updateBits(embFuncEnA, mask, enable);
+      yield* wait(this.bus.writeByte(EmbeddedRegisters.EMB_FUNC_EN_A, embFuncEnA));
+    });
+  }
+
+  private *setFSMEnabled(fsm: number, enable: boolean): Steps<void> {
+    validateFSMNumber(fsm);
+    const register = fsm <= 8 ? EmbeddedRegisters.FSM_ENABLE_A : EmbeddedRegisters.FSM_ENABLE_B;
+    yield* this.withRegisterBank(FUNC_CFG_EMBEDDED, function* () {
+      let fsmEnable = yield* wait(this.bus.readByte(register));
+      fsmEnable = updateBits(fsmEnable, 1 << ((fsm - 1) % 8), enable); // FSMn_EN
+      yield* wait(this.bus.writeByte(register, fsmEnable));
+    });
+  }
+
+  /**
+   * Write consecutive bytes to the embedded advanced features pages
+   * @param address - Start address as (page << 8) | register
+   */
+  private *writeAdvancedPage(address: number, data: ArrayLike<number>): Steps<void> {
+    yield* this.withRegisterBank(FUNC_CFG_EMBEDDED, function* () {
+      const pageRw = yield* wait(this.bus.readByte(EmbeddedRegisters.PAGE_RW));
+      yield* wait(this.bus.writeByte(EmbeddedRegisters.PAGE_RW, (pageRw & 0x9f) | 0x40)); // PAGE_WRITE
+      try {
+        let page = (address >> 8) & 0x0f;
+        let register = address & 0xff;
+        yield* wait(this.bus.writeByte(EmbeddedRegisters.PAGE_SEL, (page << 4) | 0x01));
+        yield* wait(this.bus.writeByte(EmbeddedRegisters.PAGE_ADDRESS, register));
+
+        for (let i = 0; i < data.length; i++) {
+          // PAGE_VALUE auto-increments PAGE_ADDRESS, the page itself must be advanced by hand
+          yield* wait(this.bus.writeByte(EmbeddedRegisters.PAGE_VALUE, data[i] & 0xff));
+          register = (register + 1) & 0xff;
+          if (register === 0 && i < data.length - 1) {
+            page++;
+            yield* wait(this.bus.writeByte(EmbeddedRegisters.PAGE_SEL, (page << 4) | 0x01));
+            yield* wait(this.bus.writeByte(EmbeddedRegisters.PAGE_ADDRESS, 0x00));
+          }
+        }
+      } finally {
+        yield* wait(this.bus.writeByte(EmbeddedRegisters.PAGE_SEL, 0x01));
+        yield* wait(this.bus.writeByte(EmbeddedRegisters.PAGE_RW, pageRw & 0x9f));
+      }
+    });
+  }
+
+  /**
+   * Read consecutive bytes from the embedded advanced features pages
+   * @param address - Start address as (page << 8) | register
+   */
+  private *readAdvancedPage(address: number, length: number): Steps<number[]> {
+    return yield* this.withRegisterBank(FUNC_CFG_EMBEDDED, function* () {
+      const pageRw = yield* wait(this.bus.readByte(EmbeddedRegisters.PAGE_RW));
+      yield* wait(this.bus.writeByte(EmbeddedRegisters.PAGE_RW, (pageRw & 0x9f) | 0x20)); // PAGE_READ
+      try {
+        const data: number[] = [];
+        for (let i = 0; i < length; i++) {
+          const current = address + i;
+          yield* wait(this.bus.writeByte(EmbeddedRegisters.PAGE_SEL, (((current >> 8) & 0x0f) << 4) | 0x01));
+          yield* wait(this.bus.writeByte(EmbeddedRegisters.PAGE_ADDRESS, current & 0xff));
+          data.push(yield* wait(this.bus.readByte(EmbeddedRegisters.PAGE_VALUE)));
+        }
+        return data;
+      } finally {
+        yield* wait(this.bus.writeByte(EmbeddedRegisters.PAGE_SEL, 0x01));
+        yield* wait(this.bus.writeByte(EmbeddedRegisters.PAGE_RW, pageRw & 0x9f));
+      }
+    });
+  }
+
+  private *writeAccelConfig(odr: AccelODR, fs: AccelFullScale): Steps<void> {
+    // CTRL1_XL: ODR_XL[7:4], FS_XL[3:2], LPF2_XL_EN[1], not_used[0]
+    const value = ((odr & 0x0f) << 4) | ((fs & 0x03) << 2);
+    yield* wait(this.bus.writeByte(Registers.CTRL1_XL, value));
+  }
+
+  private *writeGyroConfig(odr: GyroODR, fs: GyroFullScale): Steps<void> {
+    // CTRL2_G: ODR_G[7:4], FS_G[3:0]
+    const value = ((odr & 0x0f) << 4) | (fs & 0x0f);
+    yield* wait(this.bus.writeByte(Registers.CTRL2_G, value));
+  }
+
+  private *enableBasicInterrupts(): Steps<void> {
+    let tapCfg2 = yield* wait(this.bus.readByte(Registers.TAP_CFG2));
+    tapCfg2 |= 0x80; // Set INTERRUPTS_ENABLE bit
+    yield* wait(this.bus.writeByte(Registers.TAP_CFG2, tapCfg2));
+  }
+
+  private *readInterruptRouting(pin: InterruptPin): Steps<InterruptRouting> {
+    const isInt1 = pin === InterruptPin.INT1;
+    const ctrl = yield* wait(this.bus.readByte(isInt1 ? Registers.INT1_CTRL : Registers.INT2_CTRL));
+    const md = yield* wait(this.bus.readByte(isInt1 ? Registers.MD1_CFG : Registers.MD2_CFG));
+    return {
+      accelDataReady: (ctrl & 0x01) !== 0,
+      gyroDataReady: (ctrl & 0x02) !== 0,
+      tempDataReady: !isInt1 && (ctrl & 0x04) !== 0,
+      boot: isInt1 && (ctrl & 0x04) !== 0,
+      fifoThreshold: (ctrl & 0x08) !== 0,
+      fifoOverrun: (ctrl & 0x10) !== 0,
+      fifoFull: (ctrl & 0x20) !== 0,
+      sensorHub: isInt1 && (md & 0x01) !== 0,
+      timestamp: !isInt1 && (md & 0x01) !== 0,
+      embeddedFunctions: (md & 0x02) !== 0,
+      orientation: (md & 0x04) !== 0,
+      doubleTap: (md & 0x08) !== 0,
+      freeFall: (md & 0x10) !== 0,
+      wakeUp: (md & 0x20) !== 0,
+      singleTap: (md & 0x40) !== 0,
+      sleepChange: (md & 0x80) !== 0,
+    };
+  }
+
+  /**
+   * Handle the interrupt edges that arrived during the operation that just finished
+   */
+  protected flushInterrupts(): void {
+    for (const pin of this.pendingInterrupts) {
+      this.pendingInterrupts.delete(pin);
+      void this.handleInterrupt(pin);
+    }
+  }
+
+  private onInterruptEdge(pin: InterruptPin): void {
+    if (this.inOperation()) {
+      this.pendingInterrupts.add(pin); // Reading sources now would interleave with the operation
+    } else {
+      void this.handleInterrupt(pin);
+    }
+  }
+
+  private handleInterrupt(pin: InterruptPin): MaybeAsync<M, void> {
+    return this.run(function* () {
+      try {
+        let routing = this.interruptRouting.get(pin) ?? {};
+        if (pin === InterruptPin.INT1 && this.allInterruptsOnInt1) {
+          routing = mergeRouting(routing, this.interruptRouting.get(InterruptPin.INT2) ?? {});
+        }
+
+        this.emit('interrupt', pin);
+
+        if (routing.accelDataReady || routing.gyroDataReady || routing.tempDataReady) {
+          yield* this.dispatchDataReady(routing);
+        }
+        if (routing.fifoThreshold || routing.fifoOverrun || routing.fifoFull) {
+          yield* this.dispatchFIFOEvents(routing);
+        }
+        if (routing.singleTap || routing.doubleTap) {
+          const tap = yield* wait(this.readTapEvent());
+          if (tap) this.emit('tap', tap);
+        }
+        if (routing.wakeUp || routing.sleepChange || routing.freeFall) {
+          yield* this.dispatchWakeUpEvents();
+        }
+        if (routing.orientation) {
+          yield* this.dispatchOrientationEvent();
+        }
+        if (routing.embeddedFunctions) {
+          yield* this.dispatchEmbeddedEvents();
+        }
+        if (routing.sensorHub && (yield* wait(this.getSensorHubStatus())).endOfOperation) {
+          this.emit('sensorHub', yield* wait(this.readSensorHubData()));
+        }
+      } catch (error) {
+        const reason = error instanceof Error ? error : new Error(String(error));
+        // Without a listener, emitting 'error' would throw from the GPIO callback
+        if (this.listenerCount('error') > 0) {
+          this.emit('error', reason);
+        } else {
+          process.emitWarning(reason);
+        }
+      }
+    });
+  }
+
+  private *dispatchDataReady(routing: InterruptRouting): Steps<void> {
+    const status = yield* wait(this.getStatus());
+    if (status.accelDataReady || status.gyroDataReady) {
+      const includeTemp = routing.tempDataReady === true && status.tempDataReady;
+      this.emit('dataReady', convertIMUData(yield* this.readSample(includeTemp, this.timestampEnabled), this.units));
+    }
+  }
+
+  private *dispatchWakeUpEvents(): Steps<void> {
+    // WAKE_UP_SRC is read once since reading it clears latched flags
+    const wakeUpSrc = yield* wait(this.bus.readByte(Registers.WAKE_UP_SRC));
+    const freeFall = yield* this.decodeFreeFallEvent(wakeUpSrc);
+    if (freeFall) this.emit('freeFall', freeFall);
+    for (const event of this.decodeActivityEvents(wakeUpSrc)) {
+      this.emit('activity', event);
+    }
+  }
+
+  private *dispatchOrientationEvent(): Steps<void> {
+    const d6dSrc = yield* wait(this.bus.readByte(Registers.D6D_SRC));
+    const orientation = this.decodeOrientation(d6dSrc);
+    if ((d6dSrc & 0x40) === 0 || orientation === null || orientation === this.lastOrientation) {
+      return; // D6D_IA not set or position unchanged
+    }
+    const previous = this.lastOrientation;
+    this.lastOrientation = orientation;
+    this.emit('orientation', { orientation, previous });
+  }
+
+  private *dispatchEmbeddedEvents(): Steps<void> {
+    const status = yield* wait(this.readEmbeddedFunctionStatus());
+    if (status.stepDetected) {
+      this.emit('step', { steps: yield* wait(this.readStepCount()) });
+    }
+    if (status.significantMotion) {
+      this.emit('significantMotion', yield* this.createMotionEvent());
+    }
+    if (status.tilt) {
+      this.emit('tilt', yield* this.createMotionEvent());
+    }
+    if (status.fsmLongCounter) {
+      this.emit('fsmLongCounter', { count: yield* wait(this.readFSMLongCounter()) });
+    }
+
+    const fired = yield* wait(this.readFSMStatus());
+    if (fired.length > 0) {
+      this.emit('fsm', { fired });
+    }
+  }
+
+  private *createMotionEvent(): Steps<MotionEvent> {
+    const event: MotionEvent = {};
+    if (this.timestampEnabled) {
+      event.timestamp = yield* wait(this.readTimestamp());
+    }
+    return event;
+  }
+
+  private *dispatchFIFOEvents(routing: InterruptRouting): Steps<void> {
+    const status = yield* wait(this.getFIFOStatus());
+    if (routing.fifoThreshold && status.watermarkReached) this.emit('fifoWatermark', status);
+    if (routing.fifoOverrun && status.overrun) this.emit('fifoOverrun', status);
+    if (routing.fifoFull && status.full) this.emit('fifoFull', status);
+  }
+
+  private *rescaleEventDetection(): Steps<void> {
+    if (this.tapConfig) yield* this.writeTapConfig(this.tapConfig);
+    if (this.wakeUpConfig) yield* this.writeWakeUpConfig(this.wakeUpConfig);
+    if (this.activityConfig) yield* this.writeActivityConfig(this.activityConfig);
+    if (this.freeFallConfig) yield* this.writeFreeFallConfig(this.freeFallConfig);
+  }
+
+  private *writeTapConfig(config: TapConfig): Steps<void> {
+    // Threshold: 5 bits, 1 LSB = FS_XL / 2^5
+    const threshold = clamp(Math.round((config.threshold * 32) / this.getAccelFullScale()), 1, 31);
+    const enabled = config.axes ?? { x: true, y: true, z: true };
+    const axes: Partial<Record<Axis, boolean>> = {};
+    for (const axis of Object.keys(enabled) as Axis[]) {
+      if (enabled[axis]) axes[toSensorAxis(this.mounting, axis)] = true; // device axes to sensor axes
+    }
+
+    let tapCfg0 = yield* wait(this.bus.readByte(Registers.TAP_CFG0));
+    tapCfg0 = (tapCfg0 & ~0x0e) | (axes.x ? 0x08 : 0) | (axes.y ? 0x04 : 0) | (axes.z ? 0x02 : 0);
+    yield* wait(this.bus.writeByte(Registers.TAP_CFG0, tapCfg0));
+
+    const tapCfg1 = yield* wait(this.bus.readByte(Registers.TAP_CFG1));
+    yield* wait(this.bus.writeByte(Registers.TAP_CFG1, (tapCfg1 & 0xe0) | threshold)); // TAP_THS_X[4:0]
+    const tapCfg2 = yield* wait(this.bus.readByte(Registers.TAP_CFG2));
+    yield* wait(this.bus.writeByte(Registers.TAP_CFG2, (tapCfg2 & 0xe0) | threshold)); // TAP_THS_Y[4:0]
+    const tapThs6d = yield* wait(this.bus.readByte(Registers.TAP_THS_6D));
+    yield* wait(this.bus.writeByte(Registers.TAP_THS_6D, (tapThs6d & 0xe0) | threshold)); // TAP_THS_Z[4:0]
+
+    // INT_DUR2: DUR[7:4] (32/ODR per LSB), QUIET[3:2] (4/ODR per LSB), SHOCK[1:0] (8/ODR per LSB)
+    // A value of 0 selects the default window (16/ODR, 2/ODR and 4/ODR respectively)
+    const shock = this.msToODRCycles(config.shockMs, 8, 3);
+    const quiet = this.msToODRCycles(config.quietMs, 4, 3);
+    const duration = this.msToODRCycles(config.durationMs, 32, 15);
+    yield* wait(this.bus.writeByte(Registers.INT_DUR2, (duration << 4) | (quiet << 2) | shock));
+
+    let wakeUpThs = yield* wait(this.bus.readByte(Registers.WAKE_UP_THS));
+    if (config.mode === TapMode.SINGLE_AND_DOUBLE) {
+      wakeUpThs |= 0x80; // Set SINGLE_DOUBLE_TAP bit
+    } else {
+      wakeUpThs &= ~0x80;
+    }
+    yield* wait(this.bus.writeByte(Registers.WAKE_UP_THS, wakeUpThs));
+  }
+
+  private *writeWakeUpConfig(config: WakeUpConfig): Steps<void> {
+    // WK_THS[5:0]: 1 LSB = FS_XL / 2^8 when WAKE_THS_W is set, FS_XL / 2^6 otherwise
+    const fsMg = this.getAccelFullScale() * 1000;
+    const fineThreshold = Math.round((config.thresholdMg * 256) / fsMg);
+    const useFineWeight = fineThreshold <= 0x3f;
+    const threshold = useFineWeight
+      ? fineThreshold
+      : clamp(Math.round((config.thresholdMg * 64) / fsMg), 0, 0x3f);
+
+    let wakeUpThs = yield* wait(this.bus.readByte(Registers.WAKE_UP_THS));
+    wakeUpThs = (wakeUpThs & 0xc0) | threshold;
+    yield* wait(this.bus.writeByte(Registers.WAKE_UP_THS, wakeUpThs));
+
+    // WAKE_UP_DUR: WAKE_DUR[6:5] (1/ODR per LSB), WAKE_THS_W[4]
+    const duration = this.msToODRCycles(config.durationMs, 1, 3);
+    let wakeUpDur = yield* wait(this.bus.readByte(Registers.WAKE_UP_DUR));
+    wakeUpDur = (wakeUpDur & 0x8f) | (duration << 5) | (useFineWeight ? 0x10 : 0);
+    yield* wait(this.bus.writeByte(Registers.WAKE_UP_DUR, wakeUpDur));
+
+    let tapCfg0 = yield* wait(this.bus.readByte(Registers.TAP_CFG0));
+    if (config.filter === WakeUpFilter.HIGH_PASS) {
+      tapCfg0 |= 0x10; // Set SLOPE_FDS bit
+    } else {
+      tapCfg0 &= ~0x10;
+    }
+    yield* wait(this.bus.writeByte(Registers.TAP_CFG0, tapCfg0));
+  }
+
+  private *writeActivityConfig(config: ActivityConfig): Steps<void> {
+    // WAKE_UP_DUR SLEEP_DUR[3:0]: 512/ODR per LSB, 0 selects 16/ODR
+    const sleepDuration = this.msToODRCycles(config.sleepDurationMs, 512, 15);
+    let wakeUpDur = yield* wait(this.bus.readByte(Registers.WAKE_UP_DUR));
+    wakeUpDur = (wakeUpDur & 0xf0) | sleepDuration;
+    yield* wait(this.bus.writeByte(Registers.WAKE_UP_DUR, wakeUpDur));
+
+    const mode = config.mode ?? InactivityMode.ACCEL_LOW_POWER_GYRO_SLEEP;
+    let tapCfg2 = yield* wait(this.bus.readByte(Registers.TAP_CFG2));
+    tapCfg2 = (tapCfg2 & 0x9f) | ((mode & 0x03) << 5); // INACT_EN[6:5]
+    yield* wait(this.bus.writeByte(Registers.TAP_CFG2, tapCfg2));
+  }
+
+  private decodeActivityEvents(wakeUpSrc: number): ActivityEvent[] {
+    // WAKE_UP_SRC: SLEEP_CHANGE_IA[6], FF_IA[5], SLEEP_STATE[4], WU_IA[3], X_WU[2], Y_WU[1], Z_WU[0]
+    const events: ActivityEvent[] = [];
+    if ((wakeUpSrc & 0x08) !== 0) {
+      const sensorAxes: Axis[] = [];
+      if (wakeUpSrc & 0x04) sensorAxes.push('x');
+      if (wakeUpSrc & 0x02) sensorAxes.push('y');
+      if (wakeUpSrc & 0x01) sensorAxes.push('z');
+      const axes = sensorAxes.map((axis) => toDeviceAxis(this.mounting, axis, 1).axis);
+      events.push({ type: 'wakeUp', axes: (['x', 'y', 'z'] as Axis[]).filter((axis) => axes.includes(axis)) });
+    }
+    if ((wakeUpSrc & 0x40) !== 0) {
+      events.push({ type: (wakeUpSrc & 0x10) !== 0 ? 'inactivity' : 'activity', axes: [] });
+    }
+    return events;
+  }
+
+  private *writeFreeFallConfig(config: FreeFallConfig): Steps<void> {
+    // FF_DUR[5:0] is split between WAKE_UP_DUR FF_DUR5[7] and FREE_FALL FF_DUR[7:3], 1/ODR per LSB
+    const duration = this.msToODRCycles(config.durationMs, 1, 0x3f);
+    yield* wait(this.bus.writeByte(Registers.FREE_FALL, ((duration & 0x1f) << 3) | (config.threshold & 0x07)));
+
+    let wakeUpDur = yield* wait(this.bus.readByte(Registers.WAKE_UP_DUR));
+    wakeUpDur = (wakeUpDur & 0x7f) | ((duration & 0x20) << 2);
+    yield* wait(this.bus.writeByte(Registers.WAKE_UP_DUR, wakeUpDur));
+  }
+
+  private *decodeFreeFallEvent(wakeUpSrc: number): Steps<FreeFallEvent | null> {
+    if ((wakeUpSrc & 0x20) === 0) {
+      return null; // FF_IA not set
+    }
+    const event: FreeFallEvent = {};
+    if (this.timestampEnabled) {
+      event.timestamp = yield* wait(this.readTimestamp());
+    }
+    return event;
+  }
+
+  private decodeOrientation(d6dSrc: number): Orientation | null {
+    const orientation = this.decodeSensorOrientation(d6dSrc);
+    return orientation && toDeviceOrientation(this.mounting, orientation);
+  }
+
+  private decodeSensorOrientation(d6dSrc: number): Orientation | null {
+    // D6D_SRC: ZH[5], ZL[4], YH[3], YL[2], XH[1], XL[0]
+    if (d6dSrc & 0x02) return 'X_UP';
+    if (d6dSrc & 0x01) return 'X_DOWN';
+    if (d6dSrc & 0x08) return 'Y_UP';
+    if (d6dSrc & 0x04) return 'Y_DOWN';
+    if (d6dSrc & 0x20) return 'Z_UP';
+    if (d6dSrc & 0x10) return 'Z_DOWN';
+    return null;
+  }
+
+  /**
+   * Convert a time window in ms to a register value counted in units of `cyclesPerLSB` accelerometer ODR periods
+   */
+  private msToODRCycles(ms: number | undefined, cyclesPerLSB: number, max: number): number {
+    if (ms === undefined) return 0;
+    const odr = this.getAccelODR();
+    if (odr === 0) {
+      throw new Error('Accelerometer ODR must be set before configuring time windows');
+    }
+    return clamp(Math.round((ms * odr) / 1000 / cyclesPerLSB), 0, max);
+  }
+
+  private decodeFIFOSample<U extends UnitSystem>(buffer: Buffer, units: U): FIFOSample<U> {
+    // FIFO_DATA_OUT_TAG: TAG_SENSOR[7:3], TAG_CNT[2:1], TAG_PARITY[0]
+    const tag = (buffer[0] >> 3) as FIFOTag;
+    const tagCount = (buffer[0] >> 1) & 0x03;
+
+    switch (tag) {
+      case FIFOTag.ACCEL_NC:
+      case FIFOTag.ACCEL_NC_T_1:
+      case FIFOTag.ACCEL_NC_T_2: {
+        const raw = this.decodeFIFOVector(buffer);
+        const sensitivity = this.getAccelSensitivity();
+        return {
+          sensor: 'accel',
+          tag,
+          tagCount,
+          raw,
+          data: convertAccel(
+            toDeviceFrame(
+              this.mounting,
+              this.correctAccel({ x: raw.x * sensitivity, y: raw.y * sensitivity, z: raw.z * sensitivity })
+            ),
+            units.accel
+          ),
+        };
+      }
+      case FIFOTag.GYRO_NC:
+      case FIFOTag.GYRO_NC_T_1:
+      case FIFOTag.GYRO_NC_T_2: {
+        const raw = this.decodeFIFOVector(buffer);
+        const sensitivity = this.getGyroSensitivity();
+        return {
+          sensor: 'gyro',
+          tag,
+          tagCount,
+          raw,
+          data: convertGyro(
+            toDeviceFrame(
+              this.mounting,
+              this.compensateGyro({ x: raw.x * sensitivity, y: raw.y * sensitivity, z: raw.z * sensitivity })
+            ),
+            units.gyro
+          ),
+        };
+      }
+      case FIFOTag.TEMPERATURE: {
+        const raw = buffer.readInt16LE(1);
+        return { sensor: 'temperature', tag, tagCount, raw, data: convertTemperature(25 + raw / 256, units.temperature) };
+      }
+      case FIFOTag.SENSOR_HUB_SLAVE0:
+      case FIFOTag.SENSOR_HUB_SLAVE1:
+      case FIFOTag.SENSOR_HUB_SLAVE2:
+      case FIFOTag.SENSOR_HUB_SLAVE3:
+        return {
+          sensor: 'sensorHub',
+          tag,
+          tagCount,
+          slave: tag - FIFOTag.SENSOR_HUB_SLAVE0,
+          raw: Buffer.from(buffer.subarray(1, 7)),
+        };
+      case FIFOTag.TIMESTAMP: {
+        const raw = buffer.readUInt32LE(1);
+        return { sensor: 'timestamp', tag, tagCount, raw, data: this.ticksToMicroseconds(raw) };
+      }
+      default:
+        return { sensor: 'other', tag, tagCount, raw: Buffer.from(buffer.subarray(1, 7)) };
+    }
+  }
+
+  private ticksToMicroseconds(ticks: number): number {
+    // Values far behind the last reading belong to the previous wrap (e.g. old FIFO entries),
+    // values far ahead of it mean the counter rolled over since.
+    const delta = ticks - this.lastTimestampTicks;
+    let wraps = this.timestampWraps;
+    if (delta < -TIMESTAMP_RANGE / 2) {
+      wraps++;
+    } else if (delta > TIMESTAMP_RANGE / 2 && wraps > 0) {
+      return ((wraps - 1) * TIMESTAMP_RANGE + ticks) * this.timestampResolutionUs;
+    }
+
+    if (wraps !== this.timestampWraps || delta > 0) {
+      this.timestampWraps = wraps;
+      this.lastTimestampTicks = ticks;
+    }
+    return (wraps * TIMESTAMP_RANGE + ticks) * this.timestampResolutionUs;
+  }
+
+  private decodeFIFOVector(buffer: Buffer): RawVector3D {
+    return {
+      x: buffer.readInt16LE(1),
+      y: buffer.readInt16LE(3),
+      z: buffer.readInt16LE(5),
+    };
+  }
+
+  // ==================== Cleanup ====================
+
+  /**
+   * Stop open streams, detach interrupt lines and close the I2C connection
+   */
+  close(): MaybeAsync<M, void> {
+    return this.run(function* () {
+      for (const stop of [...this.streamStops]) {
+        stop();
+      }
+      for (const pin of [...this.interruptLines.keys()]) {
+        this.detachInterrupt(pin);
+      }
+      yield* wait(this.bus.close());
+    });
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Sensor mounting orientation
+ *
+ * Boards often carry the sensor turned or upside down. The mounting rotation
+ * takes vectors from the sensor frame to the device frame:
+ *
+ * ```
+ * device = matrix · sensor
+ * ```
+ *
+ * Presets name the sensor axis each device axis points along, so '-Y+X+Z'
+ * means device X = sensor -Y, device Y = sensor +X and device Z = sensor +Z.
+ */
+
+import { Vector3D, Matrix3, Axis, Orientation, Mounting, MountingOrientation } from './types';
+
+export const MOUNTING_ORIENTATIONS: MountingOrientation[] = [
+  '+X+Y+Z', '+X-Y-Z', '-X+Y-Z', '-X-Y+Z',
+  '+X+Z-Y', '+X-Z+Y', '-X+Z+Y', '-X-Z-Y',
+  '+Y+X-Z', '+Y-X+Z', '-Y+X+Z', '-Y-X-Z',
+  '+Y+Z+X', '+Y-Z-X', '-Y+Z-X', '-Y-Z+X',
+  '+Z+X+Y', '+Z-X-Y', '-Z+X-Y', '-Z-X+Y',
+  '+Z+Y-X', '+Z-Y+X', '-Z+Y+X', '-Z-Y-X',
+];
+
+const AXES: Axis[] = ['x', 'y', 'z'];
+
+// Tolerance on the orthonormality of a user supplied matrix
+const ROTATION_TOLERANCE = 1e-3;
+
+/**
+ * Rotation matrix of a mounting preset or matrix
+ * Throws unless the matrix is a proper rotation (mirror images are rejected)
+ */
+export function mountingMatrix(mounting: Mounting): Matrix3 {
+  if (typeof mounting === 'string') {
+    if (!MOUNTING_ORIENTATIONS.includes(mounting)) {
+      throw new Error(`Unknown mounting orientation "${mounting}", expected e.g. +X+Y+Z or -Y+X+Z`);
+    }
+    const matrix: Matrix3 = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+    for (let row = 0; row < 3; row++) {
+      const axis = AXES.indexOf(mounting[row * 2 + 1].toLowerCase() as Axis);
+      matrix[row][axis] = mounting[row * 2] === '-' ? -1 : 1;
+    }
+    return matrix;
+  }
+
+  const valid =
+    Array.isArray(mounting) &&
+    mounting.length === 3 &&
+    mounting.every((row) => Array.isArray(row) && row.length === 3 && row.every(Number.isFinite));
+  if (!valid) {
+    throw new Error('Mounting matrix must be 3x3 with finite entries');
+  }
+  for (let i = 0; i < 3; i++) {
+    for (let j = 0; j < 3; j++) {
+      const dot = mounting[i][0] * mounting[j][0] + mounting[i][1] * mounting[j][1] + mounting[i][2] * mounting[j][2];
+      if (Math.abs(dot - (i === j ? 1 : 0)) > ROTATION_TOLERANCE) {
+        throw new Error('Mounting matrix is not orthonormal');
+      }
+    }
+  }
+  if (determinant(mounting) < 0) {
+    throw new Error('Mounting matrix is a reflection, not a rotation');
+  }
+  return mounting.map((row) => [...row]) as Matrix3;
+}
+
+/**
+ * Mounting rotation, or null when the sensor is aligned with the device
+ */
+export function resolveMounting(mounting: Mounting): Matrix3 | null {
+  const matrix = mountingMatrix(mounting);
+  const aligned = matrix.every((row, i) => row.every((value, j) => value === (i === j ? 1 : 0)));
+  return aligned ? null : matrix;
+}
+
+/**
+ * Rotate a sensor frame vector to the device frame
+ */
+export function toDeviceFrame(mounting: Matrix3 | null, v: Vector3D): Vector3D {
+  if (!mounting) return v;
+  const [a, b, c] = mounting;
+  return {
+    x: a[0] * v.x + a[1] * v.y + a[2] * v.z,
+    y: b[0] * v.x + b[1] * v.y + b[2] * v.z,
+    z: c[0] * v.x + c[1] * v.y + c[2] * v.z,
+  };
+}
+
+/**
+ * Rotate a device frame vector to the sensor frame
+ */
+export function toSensorFrame(mounting: Matrix3 | null, v: Vector3D): Vector3D {
+  if (!mounting) return v;
+  const [a, b, c] = mounting;
+  return {
+    x: a[0] * v.x + b[0] * v.y + c[0] * v.z,
+    y: a[1] * v.x + b[1] * v.y + c[1] * v.z,
+    z: a[2] * v.x + b[2] * v.y + c[2] * v.z,
+  };
+}
+
+/**
+ * Device axis closest to a signed sensor axis
+ * Used for event labels, which the sensor reports per axis
+ */
+export function toDeviceAxis(mounting: Matrix3 | null, axis: Axis, sign: 1 | -1): { axis: Axis; sign: 1 | -1 } {
+  return dominantAxis(toDeviceFrame(mounting, unitVector(axis, sign)));
+}
+
+/**
+ * Sensor axis closest to a device axis
+ */
+export function toSensorAxis(mounting: Matrix3 | null, axis: Axis): Axis {
+  return dominantAxis(toSensorFrame(mounting, unitVector(axis, 1))).axis;
+}
+
+/**
+ * Device orientation matching a sensor orientation
+ */
+export function toDeviceOrientation(mounting: Matrix3 | null, orientation: Orientation): Orientation {
+  const sensorAxis = orientation[0].toLowerCase() as Axis;
+  const { axis, sign } = toDeviceAxis(mounting, sensorAxis, orientation.endsWith('_UP') ? 1 : -1);
+  return `${axis.toUpperCase()}_${sign > 0 ? 'UP' : 'DOWN'}` as Orientation;
+}
+
+function unitVector(axis: Axis, sign: 1 | -1): Vector3D {
+  const v: Vector3D = { x: 0, y: 0, z: 0 };
+  v[axis] = sign;
+  return v;
+}
+
+function dominantAxis(v: Vector3D): { axis: Axis; sign: 1 | -1 } {
+  const axis = AXES.reduce((best, a) => (Math.abs(v[a]) > Math.abs(v[best]) ? a : best));
+  return { axis, sign: v[axis] < 0 ? -1 : 1 };
+}
+
+function determinant(m: Matrix3): number {
+  return (
+    m[0][0] * (m[1][1] * m[2][2] - m[1][2] * m[2][1]) -
+    m[0][1] * (m[1][0] * m[2][2] - m[1][2] * m[2][0]) +
+    m[0][2] * (m[1][0] * m[2][1] - m[1][1] * m[2][0])
+  );
+}
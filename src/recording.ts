@@ -0,0 +1,371 @@
+/**
+ * Bus transaction recording and replay
+ *
+ * A recording wraps the register interface of a real session and logs every
+ * call with its timing. Replaying the log feeds the recorded read data back
+ * to the driver and checks that it issues the same accesses, which turns a
+ * hardware session into a deterministic regression test:
+ *
+ * ```
+ * # lsm6dsr bus recording v1
+ * 0 rb 0f 6b
+ * 152 wb 10 40
+ * 9710 rk 28 a4004cfe0940
+ * 35 rb 1e 00 ! Remote I/O error
+ * ```
+ *
+ * Each line holds the µs elapsed since the previous call, the operation, the
+ * register and the data (hex), followed by `!` and the message when the call
+ * threw. Lines starting with `#` are comments.
+ */
+
+import * as fs from 'fs';
+import { performance } from 'perf_hooks';
+import { RegisterInterface, AsyncRegisterInterface, BusOperation, BusTransaction } from './types';
+
+const HEADER = '# lsm6dsr bus recording v1';
+
+const OPERATION_CODES: Record<BusOperation, string> = {
+  readByte: 'rb',
+  readWord: 'rw',
+  readBlock: 'rk',
+  writeByte: 'wb',
+  writeWord: 'ww',
+  writeBlock: 'wk',
+  close: 'cl',
+};
+
+const OPERATIONS = new Map(Object.entries(OPERATION_CODES).map(([operation, code]) => [code, operation as BusOperation]));
+
+/**
+ * Serialize transactions to the recording file format
+ */
+export function serializeBusRecording(transactions: BusTransaction[]): string {
+  const lines = [HEADER];
+  let previous = 0;
+  for (const t of transactions) {
+    const delta = Math.max(0, Math.round((t.time - previous) * 1000));
+    previous = t.time;
+
+    let line = `${delta} ${OPERATION_CODES[t.operation]}`;
+    if (t.operation !== 'close') {
+      line += ` ${hex(t.register)} ${t.data.toString('hex')}`;
+    }
+    if (t.error !== undefined) {
+      line += ` ! ${t.error.replace(/\r?\n/g, ' ')}`;
+    }
+    lines.push(line);
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Parse a recording file
+ */
+export function parseBusRecording(text: string): BusTransaction[] {
+  const transactions: BusTransaction[] = [];
+  const lines = text.split(/\r?\n/);
+  let time = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (line === '' || line.startsWith('#')) {
+      continue;
+    }
+
+    const errorAt = line.indexOf(' ! ');
+    const fields = (errorAt === -1 ? line : line.slice(0, errorAt)).split(/\s+/);
+    const error = errorAt === -1 ? undefined : line.slice(errorAt + 3);
+    const delta = Number(fields[0]);
+    const operation = OPERATIONS.get(fields[1]);
+
+    if (Number.isInteger(delta) && delta >= 0 && operation !== undefined) {
+      time += delta / 1000;
+      if (operation === 'close' && fields.length === 2) {
+        transactions.push({ operation, register: 0, data: Buffer.alloc(0), time, error });
+        continue;
+      }
+      const register = parseInt(fields[2], 16);
+      const data = fields[3] ?? '';
+      if (fields.length === 4 && register >= 0 && register <= 0xff && /^([0-9a-f]{2})+$/i.test(data)) {
+        transactions.push({ operation, register, data: Buffer.from(data, 'hex'), time, error });
+        continue;
+      }
+    }
+
+    throw new Error(`Invalid bus recording line ${i + 1}: "${line}"`);
+  }
+
+  return transactions;
+}
+
+/**
+ * Register interface decorator that records every call of the wrapped interface
+ */
+export class RecordingI2CWrapper implements RegisterInterface {
+  private bus: RegisterInterface;
+  private transactions: BusTransaction[] = [];
+  private start = performance.now();
+
+  constructor(bus: RegisterInterface) {
+    this.bus = bus;
+  }
+
+  readByte(register: number): number {
+    return this.record('readByte', register, 1, () => this.bus.readByte(register), byteBuffer);
+  }
+
+  readWord(register: number): number {
+    return this.record('readWord', register, 2, () => this.bus.readWord(register), wordBuffer);
+  }
+
+  readBlock(register: number, length: number): Buffer {
+    return this.record('readBlock', register, length, () => this.bus.readBlock(register, length), Buffer.from);
+  }
+
+  writeByte(register: number, value: number): void {
+    this.record('writeByte', register, byteBuffer(value), () => this.bus.writeByte(register, value));
+  }
+
+  writeWord(register: number, value: number): void {
+    this.record('writeWord', register, wordBuffer(value), () => this.bus.writeWord(register, value));
+  }
+
+  writeBlock(register: number, buffer: Buffer): void {
+    this.record('writeBlock', register, Buffer.from(buffer), () => this.bus.writeBlock(register, buffer));
+  }
+
+  close(): void {
+    this.record('close', 0, Buffer.alloc(0), () => this.bus.close());
+  }
+
+  getTransactions(): BusTransaction[] {
+    return [...this.transactions];
+  }
+
+  serialize(): string {
+    return serializeBusRecording(this.transactions);
+  }
+
+  save(path: string): void {
+    fs.writeFileSync(path, this.serialize());
+  }
+
+  /**
+   * Run a call and log it
+   * @param request - Bytes written, or the number of bytes requested by a read
+   * @param encode - Converts a read result to bytes
+   */
+  private record<T>(
+    operation: BusOperation,
+    register: number,
+    request: Buffer | number,
+    call: () => T,
+    encode?: (result: T) => Buffer
+  ): T {
+    const time = performance.now() - this.start;
+    try {
+      const result = call();
+      const data = encode ? encode(result) : (request as Buffer);
+      this.transactions.push({ operation, register, data, time });
+      return result;
+    } catch (error) {
+      const data = typeof request === 'number' ? Buffer.alloc(request) : request;
+      this.transactions.push({ operation, register, data, time, error: error instanceof Error ? error.message : String(error) });
+      throw error;
+    }
+  }
+}
+
+/**
+ * Async register interface decorator that records every call of the wrapped interface
+ * Produces the same file format as RecordingI2CWrapper
+ */
+export class AsyncRecordingI2CWrapper implements AsyncRegisterInterface {
+  private bus: AsyncRegisterInterface;
+  private transactions: BusTransaction[] = [];
+  private start = performance.now();
+
+  constructor(bus: AsyncRegisterInterface) {
+    this.bus = bus;
+  }
+
+  readByte(register: number): Promise<number> {
+    return this.record('readByte', register, 1, () => this.bus.readByte(register), byteBuffer);
+  }
+
+  readWord(register: number): Promise<number> {
+    return this.record('readWord', register, 2, () => this.bus.readWord(register), wordBuffer);
+  }
+
+  readBlock(register: number, length: number): Promise<Buffer> {
+    return this.record('readBlock', register, length, () => this.bus.readBlock(register, length), Buffer.from);
+  }
+
+  writeByte(register: number, value: number): Promise<void> {
+    return this.record('writeByte', register, byteBuffer(value), () => this.bus.writeByte(register, value));
+  }
+
+  writeWord(register: number, value: number): Promise<void> {
+    return this.record('writeWord', register, wordBuffer(value), () => this.bus.writeWord(register, value));
+  }
+
+  writeBlock(register: number, buffer: Buffer): Promise<void> {
+    return this.record('writeBlock', register, Buffer.from(buffer), () => this.bus.writeBlock(register, buffer));
+  }
+
+  close(): Promise<void> {
+    return this.record('close', 0, Buffer.alloc(0), () => this.bus.close());
+  }
+
+  getTransactions(): BusTransaction[] {
+    return [...this.transactions];
+  }
+
+  serialize(): string {
+    return serializeBusRecording(this.transactions);
+  }
+
+  save(path: string): Promise<void> {
+    return fs.promises.writeFile(path, this.serialize());
+  }
+
+  private async record<T>(
+    operation: BusOperation,
+    register: number,
+    request: Buffer | number,
+    call: () => Promise<T>,
+    encode?: (result: T) => Buffer
+  ): Promise<T> {
+    const time = performance.now() - this.start;
+    // Reserve the slot now so overlapping calls keep the order they were issued in
+    const transaction: BusTransaction = { operation, register, data: Buffer.alloc(0), time };
+    this.transactions.push(transaction);
+    try {
+      const result = await call();
+      transaction.data = encode ? encode(result) : (request as Buffer);
+      return result;
+    } catch (error) {
+      transaction.data = typeof request === 'number' ? Buffer.alloc(request) : request;
+      transaction.error = error instanceof Error ? error.message : String(error);
+      throw error;
+    }
+  }
+}
+
+/**
+ * Register interface that replays a recording
+ * Reads return the recorded data and writes must match the recorded ones,
+ * otherwise the call throws describing the first divergence. Calls are
+ * compared by direction, register and bytes, so e.g. writeWord() matches a
+ * recorded two-byte writeBlock(). LSM6DSRAsync sessions are replayed by
+ * wrapping it in AsyncI2CAdapter.
+ */
+export class ReplayI2CWrapper implements RegisterInterface {
+  private transactions: BusTransaction[];
+  private position = 0;
+
+  /**
+   * @param recording - Parsed transactions or the text of a recording file
+   */
+  constructor(recording: BusTransaction[] | string) {
+    this.transactions = typeof recording === 'string' ? parseBusRecording(recording) : [...recording];
+  }
+
+  static fromFile(path: string): ReplayI2CWrapper {
+    return new ReplayI2CWrapper(fs.readFileSync(path, 'utf8'));
+  }
+
+  readByte(register: number): number {
+    return this.replay('readByte', register, 1)[0];
+  }
+
+  readWord(register: number): number {
+    return this.replay('readWord', register, 2).readUInt16LE(0);
+  }
+
+  readBlock(register: number, length: number): Buffer {
+    return this.replay('readBlock', register, length);
+  }
+
+  writeByte(register: number, value: number): void {
+    this.replay('writeByte', register, byteBuffer(value));
+  }
+
+  writeWord(register: number, value: number): void {
+    this.replay('writeWord', register, wordBuffer(value));
+  }
+
+  writeBlock(register: number, buffer: Buffer): void {
+    this.replay('writeBlock', register, Buffer.from(buffer));
+  }
+
+  close(): void {
+    this.replay('close', 0, Buffer.alloc(0));
+  }
+
+  /**
+   * Number of recorded transactions not replayed yet
+   */
+  getRemaining(): number {
+    return this.transactions.length - this.position;
+  }
+
+  /**
+   * Throw if the driver stopped before the end of the recording
+   */
+  assertComplete(): void {
+    if (this.position < this.transactions.length) {
+      throw new Error(
+        `Replay incomplete: ${this.getRemaining()} of ${this.transactions.length} transactions not issued, ` +
+        `next expected ${describe(this.transactions[this.position])}`
+      );
+    }
+  }
+
+  private replay(operation: BusOperation, register: number, request: Buffer | number): Buffer {
+    const actual = describe({ operation, register, data: typeof request === 'number' ? Buffer.alloc(0) : request }, request);
+    const expected = this.transactions[this.position];
+    if (!expected) {
+      throw new Error(`Replay mismatch at transaction ${this.position + 1}: recording ended, got ${actual}`);
+    }
+
+    const matches =
+      direction(expected.operation) === direction(operation) &&
+      expected.register === register &&
+      (typeof request === 'number' ? expected.data.length === request : expected.data.equals(request));
+    if (!matches) {
+      throw new Error(`Replay mismatch at transaction ${this.position + 1}: expected ${describe(expected)}, got ${actual}`);
+    }
+
+    this.position++;
+    if (expected.error !== undefined) {
+      throw new Error(expected.error);
+    }
+    return Buffer.from(expected.data);
+  }
+}
+
+function direction(operation: BusOperation): 'read' | 'write' | 'close' {
+  return operation === 'close' ? 'close' : operation.startsWith('read') ? 'read' : 'write';
+}
+
+function describe(t: Pick<BusTransaction, 'operation' | 'register' | 'data'>, request?: Buffer | number): string {
+  if (t.operation === 'close') return 'close()';
+  const length = typeof request === 'number' ? request : t.data.length;
+  return direction(t.operation) === 'read'
+    ? `${t.operation} 0x${hex(t.register)} (${length} bytes)`
+    : `${t.operation} 0x${hex(t.register)} = ${t.data.toString('hex')}`;
+}
+
+function hex(register: number): string {
+  return register.toString(16).padStart(2, '0');
+}
+
+function byteBuffer(value: number): Buffer {
+  return Buffer.from([value & 0xff]);
+}
+
+function wordBuffer(value: number): Buffer {
+  return Buffer.from([value & 0xff, (value >> 8) & 0xff]);
+}
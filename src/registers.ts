@@ -7,6 +7,11 @@
 export const LSM6DSR_I2C_ADD_L = 0x6a; // SA0 = 0
 export const LSM6DSR_I2C_ADD_H = 0x6b; // SA0 = 1 (default)
 
+// SPI protocol: bit 7 of the address byte selects a read, mode 3, up to 10 MHz
+export const SPI_READ_BIT = 0x80;
+export const SPI_MODE = 3;
+export const SPI_MAX_SPEED_HZ = 10000000;
+
 // Device ID
 export const LSM6DSR_ID = 0x6b;
 
@@ -86,6 +91,72 @@ export const Registers = {
   FIFO_DATA_OUT_Z_H: 0x7e,
 } as const;
 
+// Embedded functions register page (FUNC_CFG_ACCESS = 1)
+export const EmbeddedRegisters = {
+  PAGE_SEL: 0x02,
+  EMB_FUNC_EN_A: 0x04,
+  EMB_FUNC_EN_B: 0x05,
+  PAGE_ADDRESS: 0x08,
+  PAGE_VALUE: 0x09,
+  EMB_FUNC_INT1: 0x0a,
+  FSM_INT1_A: 0x0b,
+  FSM_INT1_B: 0x0c,
+  EMB_FUNC_INT2: 0x0e,
+  FSM_INT2_A: 0x0f,
+  FSM_INT2_B: 0x10,
+  EMB_FUNC_STATUS: 0x12,
+  FSM_STATUS_A: 0x13,
+  FSM_STATUS_B: 0x14,
+  PAGE_RW: 0x17,
+  EMB_FUNC_FIFO_CFG: 0x44,
+  FSM_ENABLE_A: 0x46,
+  FSM_ENABLE_B: 0x47,
+  FSM_LONG_COUNTER_L: 0x48,
+  FSM_LONG_COUNTER_H: 0x49,
+  FSM_LONG_COUNTER_CLEAR: 0x4a,
+  FSM_OUTS1: 0x4c,
+  EMB_FUNC_ODR_CFG_B: 0x5f,
+  STEP_COUNTER_L: 0x62,
+  STEP_COUNTER_H: 0x63,
+  EMB_FUNC_SRC: 0x64,
+  EMB_FUNC_INIT_A: 0x66,
+  EMB_FUNC_INIT_B: 0x67,
+} as const;
+
+// Embedded advanced features pages, addressed as (page << 8) | address
+export const EmbeddedAdvancedRegisters = {
+  FSM_LC_TIMEOUT_L: 0x17a,
+  FSM_LC_TIMEOUT_H: 0x17b,
+  FSM_PROGRAMS: 0x17c,
+  FSM_START_ADD_L: 0x17e,
+  FSM_START_ADD_H: 0x17f,
+  PEDO_CMD_REG: 0x183,
+  PEDO_DEB_STEPS_CONF: 0x184,
+  PEDO_SC_DELTAT_L: 0x1d0,
+  PEDO_SC_DELTAT_H: 0x1d1,
+} as const;
+
+// Sensor hub register page (SHUB_REG_ACCESS = 1)
+export const SensorHubRegisters = {
+  SENSOR_HUB_1: 0x02,
+  SENSOR_HUB_18: 0x13,
+  MASTER_CONFIG: 0x14,
+  SLV0_ADD: 0x15,
+  SLV0_SUBADD: 0x16,
+  SLV0_CONFIG: 0x17,
+  SLV1_ADD: 0x18,
+  SLV1_SUBADD: 0x19,
+  SLV1_CONFIG: 0x1a,
+  SLV2_ADD: 0x1b,
+  SLV2_SUBADD: 0x1c,
+  SLV2_CONFIG: 0x1d,
+  SLV3_ADD: 0x1e,
+  SLV3_SUBADD: 0x1f,
+  SLV3_CONFIG: 0x20,
+  DATAWRITE_SLV0: 0x21,
+  STATUS_MASTER: 0x22,
+} as const;
+
 // Accelerometer Output Data Rate (ODR)
 export enum AccelODR {
   OFF = 0,
@@ -145,6 +216,197 @@ export enum FIFOMode {
   BYPASS_TO_FIFO = 7,
 }
 
+// FIFO accelerometer batch data rate (FIFO_CTRL3 BDR_XL[3:0])
+export enum FIFOAccelBDR {
+  NOT_BATCHED = 0,
+  Hz_1_6 = 0x0b,
+  Hz_12_5 = 0x01,
+  Hz_26 = 0x02,
+  Hz_52 = 0x03,
+  Hz_104 = 0x04,
+  Hz_208 = 0x05,
+  Hz_417 = 0x06,
+  Hz_833 = 0x07,
+  Hz_1667 = 0x08,
+  Hz_3333 = 0x09,
+  Hz_6667 = 0x0a,
+}
+
+// FIFO gyroscope batch data rate (FIFO_CTRL3 BDR_GY[7:4])
+export enum FIFOGyroBDR {
+  NOT_BATCHED = 0,
+  Hz_6_5 = 0x0b,
+  Hz_12_5 = 0x01,
+  Hz_26 = 0x02,
+  Hz_52 = 0x03,
+  Hz_104 = 0x04,
+  Hz_208 = 0x05,
+  Hz_417 = 0x06,
+  Hz_833 = 0x07,
+  Hz_1667 = 0x08,
+  Hz_3333 = 0x09,
+  Hz_6667 = 0x0a,
+}
+
+// FIFO temperature batch data rate (FIFO_CTRL4 ODR_T_BATCH[5:4])
+export enum FIFOTempBDR {
+  NOT_BATCHED = 0,
+  Hz_1_6 = 1,
+  Hz_12_5 = 2,
+  Hz_52 = 3,
+}
+
+// FIFO timestamp batching decimation (FIFO_CTRL4 DEC_TS_BATCH[7:6])
+export enum FIFOTimestampDecimation {
+  NOT_BATCHED = 0,
+  DEC_1 = 1, // Every batch data rate period
+  DEC_8 = 2,
+  DEC_32 = 3,
+}
+
+// FIFO data output tags (FIFO_DATA_OUT_TAG TAG_SENSOR[7:3])
+export enum FIFOTag {
+  GYRO_NC = 0x01,
+  ACCEL_NC = 0x02,
+  TEMPERATURE = 0x03,
+  TIMESTAMP = 0x04,
+  CFG_CHANGE = 0x05,
+  ACCEL_NC_T_2 = 0x06,
+  ACCEL_NC_T_1 = 0x07,
+  ACCEL_2XC = 0x08,
+  ACCEL_3XC = 0x09,
+  GYRO_NC_T_2 = 0x0a,
+  GYRO_NC_T_1 = 0x0b,
+  GYRO_2XC = 0x0c,
+  GYRO_3XC = 0x0d,
+  SENSOR_HUB_SLAVE0 = 0x0e,
+  SENSOR_HUB_SLAVE1 = 0x0f,
+  SENSOR_HUB_SLAVE2 = 0x10,
+  SENSOR_HUB_SLAVE3 = 0x11,
+  STEP_COUNTER = 0x12,
+  SENSOR_HUB_NACK = 0x19,
+}
+
+// FIFO depth in samples (3 KB, 7 bytes per tagged word with 6 bytes of data)
+export const FIFO_MAX_SAMPLES = 512;
+
+// Largest programmable FIFO watermark (FIFO_CTRL2 WTM8 + FIFO_CTRL1 WTM[7:0])
+export const FIFO_MAX_WATERMARK = 511;
+
+// Interrupt pins
+export enum InterruptPin {
+  INT1 = 1,
+  INT2 = 2,
+}
+
+// Interrupt pin active level (CTRL3_C H_LACTIVE)
+export enum InterruptPolarity {
+  ACTIVE_HIGH = 0,
+  ACTIVE_LOW = 1,
+}
+
+// Interrupt pin output stage (CTRL3_C PP_OD)
+export enum InterruptOutputMode {
+  PUSH_PULL = 0,
+  OPEN_DRAIN = 1,
+}
+
+// Tap detection mode (WAKE_UP_THS SINGLE_DOUBLE_TAP)
+export enum TapMode {
+  SINGLE = 0,
+  SINGLE_AND_DOUBLE = 1,
+}
+
+// Wake-up / activity detection input filter (TAP_CFG0 SLOPE_FDS)
+export enum WakeUpFilter {
+  SLOPE = 0,
+  HIGH_PASS = 1,
+}
+
+// Behaviour while inactive (TAP_CFG2 INACT_EN[6:5])
+export enum InactivityMode {
+  DISABLED = 0,
+  ACCEL_LOW_POWER = 1, // Accel 12.5 Hz, gyro unchanged
+  ACCEL_LOW_POWER_GYRO_SLEEP = 2, // Accel 12.5 Hz, gyro sleep
+  ACCEL_LOW_POWER_GYRO_POWER_DOWN = 3, // Accel 12.5 Hz, gyro power-down
+}
+
+// Free-fall threshold (FREE_FALL FF_THS[2:0])
+export enum FreeFallThreshold {
+  MG_156 = 0,
+  MG_219 = 1,
+  MG_250 = 2,
+  MG_312 = 3,
+  MG_344 = 4,
+  MG_406 = 5,
+  MG_469 = 6,
+  MG_500 = 7,
+}
+
+// 6D/4D orientation angle threshold (TAP_THS_6D SIXD_THS[6:5])
+export enum SixDThreshold {
+  DEG_80 = 0,
+  DEG_70 = 1,
+  DEG_60 = 2,
+  DEG_50 = 3,
+}
+
+// Finite State Machine output data rate (EMB_FUNC_ODR_CFG_B FSM_ODR[5:3])
+export enum FSMODR {
+  Hz_12_5 = 0,
+  Hz_26 = 1,
+  Hz_52 = 2,
+  Hz_104 = 3,
+  Hz_208 = 4,
+  Hz_417 = 5,
+}
+
+// Number of Finite State Machine program slots
+export const FSM_MAX_PROGRAMS = 16;
+
+// Embedded advanced page address where FSM programs are stored
+export const FSM_START_ADDRESS = 0x400;
+
+// Sensor hub slave polling rate (SLV0_CONFIG SHUB_ODR[7:6])
+export enum SensorHubODR {
+  Hz_104 = 0,
+  Hz_52 = 1,
+  Hz_26 = 2,
+  Hz_12_5 = 3,
+}
+
+// Number of external sensors the sensor hub can poll
+export const SENSOR_HUB_MAX_SLAVES = 4;
+
+// Bytes available in SENSOR_HUB_1..SENSOR_HUB_18
+export const SENSOR_HUB_DATA_LENGTH = 18;
+
+// Accelerometer user offset weight (CTRL6_C USR_OFF_W)
+export enum AccelOffsetWeight {
+  FINE = 0, // 2^-10 g/LSB
+  COARSE = 1, // 2^-6 g/LSB
+}
+
+// Accelerometer self-test mode (CTRL5_C ST_XL[1:0])
+export enum AccelSelfTest {
+  NORMAL = 0,
+  POSITIVE = 1,
+  NEGATIVE = 2,
+}
+
+// Gyroscope self-test mode (CTRL5_C ST_G[1:0])
+export enum GyroSelfTest {
+  NORMAL = 0,
+  POSITIVE = 1,
+  NEGATIVE = 3,
+}
+
+// Self-test output change limits from the datasheet (accel at ±4 g, gyro at ±2000 dps)
+export const ACCEL_SELF_TEST_MIN_MG = 40;
+export const ACCEL_SELF_TEST_MAX_MG = 1700;
+export const GYRO_SELF_TEST_MIN_MDPS = 150000;
+export const GYRO_SELF_TEST_MAX_MDPS = 700000;
+
 // Operating Modes
 export enum AccelOperatingMode {
   HIGH_PERFORMANCE = 0,
@@ -203,6 +465,24 @@ export const GyroODRHz: Record<GyroODR, number> = {
   [GyroODR.Hz_6667]: 6667,
 };
 
+// Free-fall threshold to mg mapping
+export const FreeFallThresholdMg: Record<FreeFallThreshold, number> = {
+  [FreeFallThreshold.MG_156]: 156,
+  [FreeFallThreshold.MG_219]: 219,
+  [FreeFallThreshold.MG_250]: 250,
+  [FreeFallThreshold.MG_312]: 312,
+  [FreeFallThreshold.MG_344]: 344,
+  [FreeFallThreshold.MG_406]: 406,
+  [FreeFallThreshold.MG_469]: 469,
+  [FreeFallThreshold.MG_500]: 500,
+};
+
+// User offset weight to mg/LSB mapping
+export const AccelOffsetWeightMg: Record<AccelOffsetWeight, number> = {
+  [AccelOffsetWeight.FINE]: 1000 / 1024,
+  [AccelOffsetWeight.COARSE]: 1000 / 64,
+};
+
 // Full scale to value mapping
 export const AccelFSValue: Record<AccelFullScale, number> = {
   [AccelFullScale.G_2]: 2,
@@ -219,3 +499,6 @@ export const GyroFSValue: Record<GyroFullScale, number> = {
   [GyroFullScale.DPS_2000]: 2000,
   [GyroFullScale.DPS_4000]: 4000,
 };
+
+// Timestamp counter nominal resolution (µs/LSB), trimmed by INTERNAL_FREQ_FINE
+export const TIMESTAMP_RESOLUTION_US = 25;
@@ -0,0 +1,237 @@
+/**
+ * SPI Wrapper for LSM6DSR
+ * Uses spi-device (Linux spidev) for 4-wire SPI communication
+ *
+ * Each register access is one full-duplex transfer: the first byte is the
+ * register address with bit 7 set for reads, followed by the data bytes.
+ * Multi-byte transfers rely on CTRL3_C IF_INC (enabled at reset and by begin()).
+ */
+
+import { SPI_READ_BIT, SPI_MODE, SPI_MAX_SPEED_HZ } from './registers';
+import { RegisterInterface, AsyncRegisterInterface, SPITransfer, SPIDeviceInterface } from './types';
+
+/**
+ * Open /dev/spidev<busNumber>.<chipSelect> in SPI mode 3
+ * spi-device is an optional dependency, loaded only when SPI is used
+ */
+function openSPIDevice(busNumber: number, chipSelect: number, speedHz: number): SPIDeviceInterface {
+  let spi: typeof import('spi-device');
+  try {
+    spi = require('spi-device');
+  } catch (error) {
+    throw new Error(`SPI transport requires the spi-device package (npm install spi-device): ${(error as Error).message}`);
+  }
+  return spi.openSync(busNumber, chipSelect, { mode: SPI_MODE, maxSpeedHz: speedHz });
+}
+
+function readTransfer(register: number, length: number, speedHz: number): SPITransfer {
+  const sendBuffer = Buffer.alloc(length + 1);
+  sendBuffer[0] = SPI_READ_BIT | (register & 0x7f);
+  return { byteLength: length + 1, sendBuffer, receiveBuffer: Buffer.alloc(length + 1), speedHz };
+}
+
+function writeTransfer(register: number, data: Buffer, speedHz: number): SPITransfer {
+  const sendBuffer = Buffer.concat([Buffer.from([register & 0x7f]), data]);
+  return { byteLength: sendBuffer.length, sendBuffer, speedHz };
+}
+
+function wordBuffer(value: number): Buffer {
+  return Buffer.from([value & 0xff, (value >> 8) & 0xff]);
+}
+
+export class SPIWrapper implements RegisterInterface {
+  private device: SPIDeviceInterface;
+  private speedHz: number;
+
+  /**
+   * @param busNumber - SPI bus (spidev<bus>.<chipSelect>)
+   * @param chipSelect - Chip select line
+   * @param speedHz - Clock frequency, at most 10 MHz
+   * @param device - Opened SPI device to use instead of opening spidev (see withDevice)
+   */
+  constructor(busNumber: number, chipSelect: number = 0, speedHz: number = SPI_MAX_SPEED_HZ, device?: SPIDeviceInterface) {
+    this.speedHz = Math.min(speedHz, SPI_MAX_SPEED_HZ);
+    this.device = device ?? openSPIDevice(busNumber, chipSelect, this.speedHz);
+  }
+
+  /**
+   * Create wrapper around an opened SPI device (for testing or alternative SPI implementations)
+   */
+  static withDevice(device: SPIDeviceInterface, speedHz: number = SPI_MAX_SPEED_HZ): SPIWrapper {
+    return new SPIWrapper(0, 0, speedHz, device);
+  }
+
+  readByte(register: number): number {
+    return this.readBlock(register, 1)[0];
+  }
+
+  readWord(register: number): number {
+    return this.readBlock(register, 2).readUInt16LE(0);
+  }
+
+  readBlock(register: number, length: number): Buffer {
+    const transfer = readTransfer(register, length, this.speedHz);
+    this.device.transferSync([transfer]);
+    return Buffer.from(transfer.receiveBuffer!.subarray(1));
+  }
+
+  writeByte(register: number, value: number): void {
+    this.writeBlock(register, Buffer.from([value & 0xff]));
+  }
+
+  writeWord(register: number, value: number): void {
+    this.writeBlock(register, wordBuffer(value));
+  }
+
+  writeBlock(register: number, buffer: Buffer): void {
+    this.device.transferSync([writeTransfer(register, buffer, this.speedHz)]);
+  }
+
+  close(): void {
+    this.device.closeSync();
+  }
+}
+
+/**
+ * Asynchronous SPI wrapper using spi-device's callback transfers
+ */
+export class AsyncSPIWrapper implements AsyncRegisterInterface {
+  private device: SPIDeviceInterface;
+  private speedHz: number;
+
+  constructor(busNumber: number, chipSelect: number = 0, speedHz: number = SPI_MAX_SPEED_HZ, device?: SPIDeviceInterface) {
+    this.speedHz = Math.min(speedHz, SPI_MAX_SPEED_HZ);
+    this.device = device ?? openSPIDevice(busNumber, chipSelect, this.speedHz);
+  }
+
+  /**
+   * Create wrapper around an opened SPI device (for testing or alternative SPI implementations)
+   */
+  static withDevice(device: SPIDeviceInterface, speedHz: number = SPI_MAX_SPEED_HZ): AsyncSPIWrapper {
+    return new AsyncSPIWrapper(0, 0, speedHz, device);
+  }
+
+  async readByte(register: number): Promise<number> {
+    return (await this.readBlock(register, 1))[0];
+  }
+
+  async readWord(register: number): Promise<number> {
+    return (await this.readBlock(register, 2)).readUInt16LE(0);
+  }
+
+  async readBlock(register: number, length: number): Promise<Buffer> {
+    const transfer = readTransfer(register, length, this.speedHz);
+    await this.transfer(transfer);
+    return Buffer.from(transfer.receiveBuffer!.subarray(1));
+  }
+
+  writeByte(register: number, value: number): Promise<void> {
+    return this.writeBlock(register, Buffer.from([value & 0xff]));
+  }
+
+  writeWord(register: number, value: number): Promise<void> {
+    return this.writeBlock(register, wordBuffer(value));
+  }
+
+  writeBlock(register: number, buffer: Buffer): Promise<void> {
+    return this.transfer(writeTransfer(register, buffer, this.speedHz));
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.device.close((err) => (err ? reject(err) : resolve()));
+    });
+  }
+
+  private transfer(transfer: SPITransfer): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.device.transfer([transfer], (err) => (err ? reject(err) : resolve()));
+    });
+  }
+}
+
+/**
+ * Mock SPI device for testing the SPI transport without hardware
+ * Decodes the LSM6DSR SPI protocol against a register map, including
+ * address auto-increment (CTRL3_C IF_INC) and software reset (CTRL3_C SW_RESET)
+ */
+export class MockSPIDevice implements SPIDeviceInterface {
+  private registers: Map<number, number> = new Map();
+  private transfers: number = 0;
+
+  constructor() {
+    this.applyReset();
+  }
+
+  transferSync(message: SPITransfer[]): this {
+    for (const transfer of message) {
+      this.transferOne(transfer);
+    }
+    return this;
+  }
+
+  transfer(message: SPITransfer[], callback: (err: Error | null | undefined) => void): this {
+    try {
+      this.transferSync(message);
+    } catch (error) {
+      setImmediate(() => callback(error as Error));
+      return this;
+    }
+    setImmediate(() => callback(null));
+    return this;
+  }
+
+  closeSync(): void {
+    // No-op for mock
+  }
+
+  close(callback: (err: Error | null | undefined) => void): void {
+    setImmediate(() => callback(null));
+  }
+
+  // Test helpers: access the register map directly
+  setRegister(register: number, value: number): void {
+    this.registers.set(register, value & 0xff);
+  }
+
+  getRegister(register: number): number {
+    return this.registers.get(register) ?? 0;
+  }
+
+  getTransferCount(): number {
+    return this.transfers;
+  }
+
+  private transferOne(transfer: SPITransfer): void {
+    const { sendBuffer, receiveBuffer, byteLength } = transfer;
+    if (!sendBuffer || byteLength < 1) {
+      throw new Error('SPI transfer must start with an address byte');
+    }
+    this.transfers++;
+
+    const read = (sendBuffer[0] & SPI_READ_BIT) !== 0;
+    const autoIncrement = (this.getRegister(0x12) & 0x04) !== 0;
+    let register = sendBuffer[0] & 0x7f;
+
+    for (let i = 1; i < byteLength; i++) {
+      if (read) {
+        if (receiveBuffer) receiveBuffer[i] = this.getRegister(register);
+      } else {
+        this.registers.set(register, sendBuffer[i]);
+      }
+      if (autoIncrement) register = (register + 1) & 0x7f;
+    }
+
+    // SW_RESET restores the defaults, which also re-enables the I2C interface
+    if (!read && (this.getRegister(0x12) & 0x01) !== 0) {
+      this.applyReset();
+    }
+  }
+
+  private applyReset(): void {
+    this.registers.clear();
+    // Reset values of WHO_AM_I and CTRL3_C (IF_INC)
+    this.registers.set(0x0f, 0x6b);
+    this.registers.set(0x12, 0x04);
+  }
+}
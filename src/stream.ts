@@ -0,0 +1,123 @@
+/**
+ * Continuous IMU sample streams
+ *
+ * Samples are pulled: the sensor is only read when the consumer asks for the
+ * next sample, so a slow consumer never queues data in memory. In `dataReady`
+ * mode samples the consumer is too slow for are skipped by the sensor, in
+ * `fifo` mode they wait in the sensor FIFO until it overruns.
+ */
+
+import {
+  Vector3D,
+  IMUData,
+  SensorStatus,
+  FIFOSample,
+  IMUStreamOptions,
+  AttitudeEstimate,
+  AccelUnit,
+  UnitSystem,
+  OutputUnits,
+} from './types';
+import { FIFOMode } from './registers';
+import { sleep } from './helpers';
+
+// Methods used to read samples, implemented by both LSM6DSR and LSM6DSRAsync
+export interface IMUStreamSource {
+  isAccelEnabled(): boolean;
+  isGyroEnabled(): boolean;
+  getAccelODR(): number;
+  getGyroODR(): number;
+  isTimestampEnabled(): boolean;
+  getStatus(): SensorStatus | Promise<SensorStatus>;
+  getFIFOMode(): FIFOMode | Promise<FIFOMode>;
+  readIMU(
+    includeTemp: boolean,
+    includeTimestamp: boolean,
+    units?: OutputUnits
+  ): IMUData<UnitSystem> | Promise<IMUData<UnitSystem>>;
+  readFIFO(maxSamples?: number, units?: OutputUnits): FIFOSample<UnitSystem>[] | Promise<FIFOSample<UnitSystem>[]>;
+  updateFusion(data: IMUData<UnitSystem>, units?: OutputUnits): AttitudeEstimate<AccelUnit> | null;
+}
+
+/**
+ * Yield IMU samples paced by the sensor until stopped
+ * @param stops - Registry of stop callbacks, used by close() to end every open stream
+ */
+export async function* imuStream(
+  source: IMUStreamSource,
+  options: IMUStreamOptions,
+  stops: Set<() => void>
+): AsyncGenerator<IMUData<UnitSystem>, void, undefined> {
+  let stopped = options.signal?.aborted ?? false;
+  const stop = () => {
+    stopped = true;
+  };
+  stops.add(stop);
+  options.signal?.addEventListener('abort', stop);
+
+  try {
+    const accel = source.isAccelEnabled();
+    const gyro = source.isGyroEnabled();
+    const odr = Math.max(accel ? source.getAccelODR() : 0, gyro ? source.getGyroODR() : 0);
+    if (odr === 0) {
+      throw new Error('Enable the accelerometer or gyroscope before streaming');
+    }
+
+    const includeTemp = options.includeTemp ?? false;
+    const includeTimestamp = options.includeTimestamp ?? source.isTimestampEnabled();
+
+    if (options.source === 'fifo') {
+      // Nothing is batched in bypass mode, the stream would wait forever
+      if ((await source.getFIFOMode()) === FIFOMode.BYPASS) {
+        throw new Error('FIFO is in BYPASS mode, call configureFIFO() with batch rates and a FIFO or STREAM mode first');
+      }
+
+      // Drain about every 16 samples unless told otherwise
+      const interval = options.pollInterval ?? Math.max(1, Math.round((16 * 1000) / odr));
+      let pending: { accel?: Vector3D; gyro?: Vector3D } = {};
+      let temperature: number | undefined;
+      let timestamp: number | undefined;
+
+      while (!stopped) {
+        const samples = await source.readFIFO(undefined, options.units);
+        for (const sample of samples) {
+          if (sample.sensor === 'accel') pending.accel = sample.data;
+          else if (sample.sensor === 'gyro') pending.gyro = sample.data;
+          else if (sample.sensor === 'temperature') temperature = sample.data;
+          else if (sample.sensor === 'timestamp') timestamp = sample.data;
+
+          // Emit once every enabled sensor has contributed a sample
+          if ((!accel || pending.accel) && (!gyro || pending.gyro)) {
+            const data: IMUData<UnitSystem> = {
+              accel: pending.accel ?? { x: 0, y: 0, z: 0 },
+              gyro: pending.gyro ?? { x: 0, y: 0, z: 0 },
+            };
+            if (includeTemp && temperature !== undefined) data.temperature = temperature;
+            if (includeTimestamp && timestamp !== undefined) data.timestamp = timestamp;
+            // Batched samples are evenly spaced while timestamp words may be decimated,
+            // so fusion times them by the nominal rate
+            const attitude = source.updateFusion({ accel: data.accel, gyro: data.gyro }, options.units);
+            if (attitude) data.attitude = attitude;
+            pending = {};
+            yield data;
+            if (stopped) return;
+          }
+        }
+        if (!stopped) await sleep(interval);
+      }
+    } else {
+      // Poll at twice the output data rate so no sample is missed
+      const interval = options.pollInterval ?? Math.max(1, Math.floor(500 / odr));
+      while (!stopped) {
+        const status = await source.getStatus();
+        if ((!accel || status.accelDataReady) && (!gyro || status.gyroDataReady)) {
+          yield await source.readIMU(includeTemp, includeTimestamp, options.units);
+        }
+        if (!stopped) await sleep(interval);
+      }
+    }
+  } finally {
+    stops.delete(stop);
+    options.signal?.removeEventListener('abort', stop);
+  }
+}
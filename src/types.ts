@@ -9,6 +9,22 @@ import {
   GyroFullScale,
   AccelOperatingMode,
   GyroOperatingMode,
+  FIFOMode,
+  FIFOAccelBDR,
+  FIFOGyroBDR,
+  FIFOTempBDR,
+  FIFOTimestampDecimation,
+  FIFOTag,
+  InterruptPin,
+  InterruptPolarity,
+  InterruptOutputMode,
+  TapMode,
+  WakeUpFilter,
+  InactivityMode,
+  FreeFallThreshold,
+  SixDThreshold,
+  FSMODR,
+  SensorHubODR,
 } from './registers';
 
 // 3D Vector data
@@ -25,10 +41,71 @@ export interface RawVector3D {
   z: number;
 }
 
+// 3x3 matrix, row-major
+export type Matrix3 = [[number, number, number], [number, number, number], [number, number, number]];
+
+// Sensor mounting preset: the sensor axis each device axis (X, Y, Z) points along,
+// e.g. '-Y+X+Z' for a sensor turned 90° about Z (the 24 right-angle rotations)
+export type MountingOrientation =
+  | '+X+Y+Z' | '+X-Y-Z' | '-X+Y-Z' | '-X-Y+Z'
+  | '+X+Z-Y' | '+X-Z+Y' | '-X+Z+Y' | '-X-Z-Y'
+  | '+Y+X-Z' | '+Y-X+Z' | '-Y+X+Z' | '-Y-X-Z'
+  | '+Y+Z+X' | '+Y-Z-X' | '-Y+Z-X' | '-Y-Z+X'
+  | '+Z+X+Y' | '+Z-X-Y' | '-Z+X-Y' | '-Z-X+Y'
+  | '+Z+Y-X' | '+Z-Y+X' | '-Z+Y+X' | '-Z-Y-X';
+
+// Sensor mounting: a preset or a rotation matrix taking sensor frame vectors to the device frame
+export type Mounting = MountingOrientation | Matrix3;
+
+// Accelerometer output unit (m/s2 is m/s², using standard gravity)
+export type AccelUnit = 'mg' | 'g' | 'm/s2';
+
+// Gyroscope output unit
+export type GyroUnit = 'mdps' | 'dps' | 'rad/s';
+
+// Temperature output unit (Celsius or Kelvin)
+export type TemperatureUnit = 'C' | 'K';
+
+// Unit of every output quantity
+export interface UnitSystem {
+  accel: AccelUnit;
+  gyro: GyroUnit;
+  temperature: TemperatureUnit;
+}
+
+// Units used when none are selected
+export interface DefaultUnits extends UnitSystem {
+  accel: 'mg';
+  gyro: 'mdps';
+  temperature: 'C';
+}
+
+// Unit selection; quantities left out keep their current unit
+export type OutputUnits = Partial<UnitSystem>;
+
+// Units in effect once the selection `O` is applied over `U`
+export type ResolveUnits<O extends OutputUnits, U extends UnitSystem = DefaultUnits> = {
+  [K in keyof UnitSystem]: K extends keyof O ? Exclude<O[K], undefined> : U[K];
+};
+
+declare const unitTag: unique symbol;
+
+// Value tagged at compile time with its unit, so values in different units are not interchangeable
+// (untagged numbers and vectors are accepted anywhere)
+export type Measured<T, U extends string> = T & { readonly [unitTag]?: U };
+
+export type AccelVector<U extends AccelUnit = 'mg'> = Measured<Vector3D, U>;
+export type GyroVector<U extends GyroUnit = 'mdps'> = Measured<Vector3D, U>;
+export type Temperature<U extends TemperatureUnit = 'C'> = Measured<number, U>;
+
 // Sensor configuration
-export interface LSM6DSRConfig {
+export interface LSM6DSRConfig<O extends OutputUnits = OutputUnits> {
+  transport?: Transport; // bus the sensor is wired to (default: i2c)
   i2cAddress?: number;
-  i2cBusNumber?: number;
+  i2cBusNumber?: number; // open /dev/i2c-<bus> directly (default: raspi-i2c board detection)
+  spiBusNumber?: number; // /dev/spidev<bus>.<chipSelect> (default: 0)
+  spiChipSelect?: number; // (default: 0)
+  spiSpeedHz?: number; // SPI clock (default: 10 MHz)
   accelODR?: AccelODR;
   accelFullScale?: AccelFullScale;
   gyroODR?: GyroODR;
@@ -37,6 +114,11 @@ export interface LSM6DSRConfig {
   gyroOperatingMode?: GyroOperatingMode;
   enableBlockDataUpdate?: boolean;
   enableAutoIncrement?: boolean;
+  accelOffset?: Vector3D; // in mg, written to the user offset registers by begin()
+  gyroBias?: Vector3D; // in mdps, for the configured gyroFullScale
+  accelCalibration?: AccelCalibration; // six-position calibration applied to accelerometer readings
+  units?: O; // units of readings, FIFO samples and events (default: mg, mdps, °C)
+  mounting?: Mounting; // report readings and event axes in the device frame (default: '+X+Y+Z')
 }
 
 // Status register data
@@ -46,15 +128,471 @@ export interface SensorStatus {
   tempDataReady: boolean;
 }
 
-// Combined sensor reading
-export interface IMUData {
-  accel: Vector3D; // in mg (milligravities)
-  gyro: Vector3D; // in mdps (millidegrees per second)
-  temperature?: number; // in degrees Celsius
+// Combined sensor reading, in mg, mdps and °C unless other units are selected
+export interface IMUData<U extends UnitSystem = DefaultUnits> {
+  accel: AccelVector<U['accel']>;
+  gyro: GyroVector<U['gyro']>;
+  temperature?: Temperature<U['temperature']>;
+  timestamp?: number; // in microseconds (on-chip timestamp counter)
+  attitude?: AttitudeEstimate<U['accel']>; // when sensor fusion is enabled
+}
+
+// Continuous sample stream options
+export interface IMUStreamOptions<O extends OutputUnits = OutputUnits> {
+  source?: 'dataReady' | 'fifo'; // poll the data-ready flags or drain the FIFO set up with configureFIFO() (default: dataReady)
+  includeTemp?: boolean;
+  includeTimestamp?: boolean; // default: when the timestamp counter is enabled
+  pollInterval?: number; // ms between status polls or FIFO reads (default: derived from the ODR)
+  highWaterMark?: number; // samples buffered by createReadStream() (default: 16)
+  signal?: AbortSignal; // ends the stream when aborted
+  units?: O; // overrides the configured units
+}
+
+// FIFO configuration
+export interface FIFOConfig {
+  mode?: FIFOMode;
+  accelBatchRate?: FIFOAccelBDR;
+  gyroBatchRate?: FIFOGyroBDR;
+  tempBatchRate?: FIFOTempBDR;
+  timestampDecimation?: FIFOTimestampDecimation;
+  watermark?: number; // in samples (0-511)
+  stopOnWatermark?: boolean;
+}
+
+// FIFO status register data
+export interface FIFOStatus {
+  level: number; // number of unread samples
+  watermarkReached: boolean;
+  overrun: boolean;
+  full: boolean;
+  overrunLatched: boolean;
+  counterBDRReached: boolean;
+}
+
+// Fields common to every FIFO sample
+interface FIFOSampleBase {
+  tag: FIFOTag;
+  tagCount: number; // 2-bit rolling counter identifying the batch time slot
+}
+
+// Accelerometer sample read from FIFO
+export interface FIFOAccelSample<U extends AccelUnit = 'mg'> extends FIFOSampleBase {
+  sensor: 'accel';
+  raw: RawVector3D;
+  data: AccelVector<U>;
+}
+
+// Gyroscope sample read from FIFO
+export interface FIFOGyroSample<U extends GyroUnit = 'mdps'> extends FIFOSampleBase {
+  sensor: 'gyro';
+  raw: RawVector3D;
+  data: GyroVector<U>;
+}
+
+// Temperature sample read from FIFO
+export interface FIFOTemperatureSample<U extends TemperatureUnit = 'C'> extends FIFOSampleBase {
+  sensor: 'temperature';
+  raw: number;
+  data: Temperature<U>;
+}
+
+// Timestamp word read from FIFO
+export interface FIFOTimestampSample extends FIFOSampleBase {
+  sensor: 'timestamp';
+  raw: number; // 32-bit tick count
+  data: number; // in microseconds, rollover-corrected
+}
+
+// External sensor sample read from FIFO
+export interface FIFOSensorHubSample extends FIFOSampleBase {
+  sensor: 'sensorHub';
+  slave: number; // 0-3
+  raw: Buffer; // 6 data bytes
+}
+
+// Sample with a tag this library does not decode
+export interface FIFORawSample extends FIFOSampleBase {
+  sensor: 'other';
+  raw: Buffer; // 6 data bytes
+}
+
+export type FIFOSample<U extends UnitSystem = DefaultUnits> =
+  | FIFOAccelSample<U['accel']>
+  | FIFOGyroSample<U['gyro']>
+  | FIFOTemperatureSample<U['temperature']>
+  | FIFOTimestampSample
+  | FIFOSensorHubSample
+  | FIFORawSample;
+
+// Interrupt sources routed to a pin (undefined fields are left unchanged)
+export interface InterruptRouting {
+  // Data-ready and FIFO sources (INT1_CTRL / INT2_CTRL)
+  accelDataReady?: boolean;
+  gyroDataReady?: boolean;
+  tempDataReady?: boolean; // INT2 only
+  boot?: boolean; // INT1 only
+  fifoThreshold?: boolean;
+  fifoOverrun?: boolean;
+  fifoFull?: boolean;
+  // Event sources (MD1_CFG / MD2_CFG)
+  singleTap?: boolean;
+  doubleTap?: boolean;
+  wakeUp?: boolean;
+  freeFall?: boolean;
+  orientation?: boolean; // 6D/4D orientation change
+  sleepChange?: boolean;
+  embeddedFunctions?: boolean;
+  sensorHub?: boolean; // INT1 only
+  timestamp?: boolean; // INT2 only
+}
+
+// Interrupt pin electrical and signalling configuration
+export interface InterruptPinConfig {
+  polarity?: InterruptPolarity;
+  outputMode?: InterruptOutputMode;
+  latched?: boolean; // Latch event interrupts until the source register is read
+  pulsedDataReady?: boolean; // Emit data-ready as 75 µs pulses instead of a level
+  allOnInt1?: boolean; // Drive all interrupt sources on INT1
+}
+
+export type Axis = 'x' | 'y' | 'z';
+
+// Tap detection configuration
+export interface TapConfig {
+  threshold: number; // in g, scaled by the accelerometer full scale
+  axes?: Partial<Record<Axis, boolean>>; // default: all axes
+  mode?: TapMode; // default: single tap only
+  shockMs?: number; // maximum duration of the over-threshold event
+  quietMs?: number; // time after the first tap during which there must be no motion
+  durationMs?: number; // maximum time between the two taps of a double tap
+}
+
+// Decoded tap event (TAP_SRC)
+export interface TapEvent {
+  type: 'single' | 'double';
+  axis: Axis;
+  sign: 1 | -1; // direction of the acceleration that triggered the tap
+}
+
+// Wake-up detection configuration
+export interface WakeUpConfig {
+  thresholdMg: number; // scaled by the accelerometer full scale
+  durationMs?: number; // time the threshold must be exceeded (up to 3 ODR periods)
+  filter?: WakeUpFilter; // default: slope filter
+}
+
+// Activity/inactivity configuration (uses the wake-up threshold to detect activity)
+export interface ActivityConfig {
+  mode?: InactivityMode; // default: accel 12.5 Hz, gyro sleep
+  sleepDurationMs?: number; // time without activity before entering inactivity
+}
+
+// Decoded wake-up / activity event (WAKE_UP_SRC)
+export interface ActivityEvent {
+  type: 'wakeUp' | 'activity' | 'inactivity';
+  axes: Axis[]; // axes that exceeded the wake-up threshold
+}
+
+// Free-fall detection configuration
+export interface FreeFallConfig {
+  threshold: FreeFallThreshold;
+  durationMs: number; // minimum time below threshold (up to 63 ODR periods)
+}
+
+// Decoded free-fall event (WAKE_UP_SRC FF_IA)
+export interface FreeFallEvent {
+  timestamp?: number; // in microseconds, when the timestamp counter is enabled
+}
+
+// Device orientation reported by the 6D/4D function (axis pointing up or down)
+export type Orientation = 'X_UP' | 'X_DOWN' | 'Y_UP' | 'Y_DOWN' | 'Z_UP' | 'Z_DOWN';
+
+// 6D/4D orientation detection configuration
+export interface OrientationConfig {
+  threshold: SixDThreshold;
+  fourD?: boolean; // Ignore Z axis positions (4D mode)
+  lowPassFilter?: boolean; // Feed the LPF2 output to the 6D function
+}
+
+// Orientation change event (D6D_SRC)
+export interface OrientationEvent {
+  orientation: Orientation;
+  previous: Orientation | null;
+}
+
+// Pedometer configuration
+export interface PedometerConfig {
+  debounceSteps?: number; // steps required before counting starts (default 10)
+  falsePositiveRejection?: boolean;
+}
+
+// Step detected event
+export interface StepEvent {
+  steps: number; // step counter value
+}
+
+// Embedded function sources routed to a pin (undefined fields are left unchanged)
+export interface EmbeddedInterruptRouting {
+  stepDetector?: boolean;
+  significantMotion?: boolean;
+  tilt?: boolean;
+  fsmLongCounter?: boolean;
+}
+
+// Pending embedded function events (EMB_FUNC_STATUS_MAINPAGE)
+export interface EmbeddedFunctionStatus {
+  stepDetected: boolean;
+  tilt: boolean;
+  significantMotion: boolean;
+  fsmLongCounter: boolean;
+}
+
+// Significant motion or tilt detected by the embedded functions
+export interface MotionEvent {
+  timestamp?: number; // in microseconds, when the timestamp counter is enabled
+}
+
+// Finite State Machine configuration
+export interface FSMConfig {
+  odr?: FSMODR;
+  longCounterTimeout?: number; // long counter value that raises the FSM_LC interrupt (0 = disabled)
+}
+
+// Finite State Machines that generated an interrupt (FSM_STATUS_A/B_MAINPAGE)
+export interface FSMEvent {
+  fired: number[]; // 1-based state machine numbers
+}
+
+// Long counter timeout event
+export interface FSMLongCounterEvent {
+  count: number;
+}
+
+// Command parsed from a .ucf register script
+export type UCFCommand =
+  | { type: 'write'; register: number; value: number }
+  | { type: 'wait'; ms: number };
+
+// Register that does not hold the value written by a .ucf script
+export interface UCFMismatch {
+  page: 'main' | 'embedded' | 'sensorHub' | 'advanced';
+  address: number; // register, or (page << 8) | register for advanced pages
+  expected: number;
+  actual: number;
+}
+
+// External sensor polled by the sensor hub
+export interface SensorHubSlaveConfig {
+  address: number; // 7-bit I2C address on the auxiliary bus
+  register: number; // first register to read
+  length: number; // bytes to read (1-7)
+  batchToFIFO?: boolean;
+}
+
+// Sensor hub (I2C master) configuration
+export interface SensorHubConfig {
+  slaves: SensorHubSlaveConfig[]; // 1-4 slaves, read in order
+  odr?: SensorHubODR; // default: 104 Hz
+  pullUp?: boolean; // Internal pull-ups on the auxiliary bus
 }
 
-// I2C interface abstraction
-export interface I2CInterface {
+// Sensor hub status (STATUS_MASTER_MAINPAGE)
+export interface SensorHubStatus {
+  endOfOperation: boolean;
+  slaveNack: boolean[]; // per slave
+  writeOnceDone: boolean;
+}
+
+// Accelerometer offset calibration options
+export interface AccelOffsetCalibrationOptions {
+  gravityAxis?: Orientation; // device axis pointing up while calibrating (default: Z_UP)
+  samples?: number; // samples to average (default: 100)
+}
+
+// Gyroscope bias calibration options
+export interface GyroBiasCalibrationOptions {
+  samples?: number; // samples to average (default: 100)
+  maxStdDev?: number; // per-axis standard deviation in mdps above which the window is rejected as motion (default: 500)
+}
+
+// Gyroscope bias calibration result
+export interface GyroBiasCalibration {
+  fullScale: GyroFullScale;
+  bias: Vector3D; // mdps
+  stdDev: Vector3D; // mdps, noise over the stationary window
+}
+
+// Continuous gyroscope bias tracking options
+export interface GyroBiasTrackingOptions {
+  windowSize?: number; // samples that must be still before the bias is updated (default: 50)
+  maxStdDev?: number; // per-axis standard deviation in mdps to consider the device still (default: 500)
+  alpha?: number; // weight of each still window in the bias update, 0-1 (default: 0.02)
+}
+
+// Six-position accelerometer calibration: corrected = matrix · (reading - bias)
+export interface AccelCalibration {
+  matrix: Matrix3;
+  bias: Vector3D; // g
+  residual?: {
+    rms: number; // g, over the calibration positions
+    max: number; // g
+  };
+}
+
+// Averaged accelerometer reading for one calibration position
+export interface AccelCalibrationPosition {
+  orientation: Orientation; // device axis pointing up
+  mean: Vector3D; // g, uncorrected sensor frame reading
+  stdDev?: Vector3D; // g
+  expected?: Vector3D; // g, gravity in the sensor frame (default: from orientation, unrotated mounting)
+}
+
+// Six-position calibration options
+export interface SixPositionCalibrationOptions {
+  samples?: number; // samples to average per position (default: 100)
+  maxStdDev?: number; // per-axis standard deviation in g above which a position is rejected as motion (default: 0.02)
+}
+
+// Self-test options
+export interface SelfTestOptions {
+  accel?: boolean; // test the accelerometer (default: true)
+  gyro?: boolean; // test the gyroscope (default: true)
+  samples?: number; // samples averaged per step (default: 5)
+}
+
+// Self-test output change on one axis (mg for accel, mdps for gyro)
+export interface SelfTestAxisResult {
+  positive: number;
+  negative: number;
+  pass: boolean;
+}
+
+// Self-test result for one sensor
+export interface SelfTestSensorResult {
+  pass: boolean;
+  min: number; // datasheet limits for the output change
+  max: number;
+  x: SelfTestAxisResult;
+  y: SelfTestAxisResult;
+  z: SelfTestAxisResult;
+}
+
+// Self-test report
+export interface SelfTestReport {
+  pass: boolean;
+  accel?: SelfTestSensorResult;
+  gyro?: SelfTestSensorResult;
+}
+
+// Pending event interrupt sources (ALL_INT_SRC)
+export interface InterruptSources {
+  freeFall: boolean;
+  wakeUp: boolean;
+  singleTap: boolean;
+  doubleTap: boolean;
+  orientation: boolean;
+  sleepChange: boolean;
+  timestampEndCount: boolean;
+}
+
+// Unit quaternion rotating device frame vectors into the earth frame (X north, Z up)
+export interface Quaternion {
+  w: number;
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Attitude as aerospace (Z-Y-X) Euler angles in degrees
+export interface EulerAngles {
+  roll: number; // about X, -180..180
+  pitch: number; // about Y, -90..90
+  yaw: number; // about Z, -180..180 (relative to the start heading without magnetometer)
+}
+
+// Sensor fusion filter
+export type FusionAlgorithm = 'madgwick' | 'mahony';
+
+// Sensor fusion options
+export interface FusionOptions {
+  algorithm?: FusionAlgorithm; // (default: madgwick)
+  beta?: number; // Madgwick gradient descent gain (default: 0.1)
+  kp?: number; // Mahony proportional gain (default: 0.5)
+  ki?: number; // Mahony integral gain, tracks gyroscope bias (default: 0)
+  sampleRate?: number; // Hz, times samples without timestamp (default: gyroscope ODR, 104 Hz standalone)
+  magnetometer?: () => Vector3D | null | undefined; // latest magnetometer reading in the sensor frame, any unit (rotated with the mounting)
+}
+
+// Attitude estimated by sensor fusion
+export interface AttitudeEstimate<U extends AccelUnit = 'mg'> {
+  quaternion: Quaternion;
+  euler: EulerAngles;
+  gravity: AccelVector<U>; // device frame
+  linearAccel: AccelVector<U>; // acceleration with gravity removed
+}
+
+// Physical quantities produced by an emulator motion profile
+export interface MotionSample {
+  accel: Vector3D; // mg
+  gyro: Vector3D; // mdps
+  temperature: number; // °C
+}
+
+// Recorded sample at `time` ms after the start of a trace
+export interface MotionTracePoint {
+  time: number;
+  accel: Vector3D;
+  gyro: Vector3D;
+  temperature?: number;
+}
+
+// Motion the emulated sensor is subjected to
+export type MotionProfile =
+  | {
+      type: 'constant';
+      accel?: Vector3D; // (default: 1 g on Z)
+      gyro?: Vector3D; // (default: at rest)
+      temperature?: number; // (default: 25 °C)
+    }
+  | {
+      type: 'sinusoid';
+      frequency: number; // Hz
+      accelOffset?: Vector3D; // (default: 1 g on Z)
+      accelAmplitude?: Vector3D;
+      gyroOffset?: Vector3D;
+      gyroAmplitude?: Vector3D;
+      temperature?: number;
+    }
+  | {
+      type: 'trace';
+      points: MotionTracePoint[]; // linearly interpolated, sorted by time
+      loop?: boolean; // repeat the trace (default: hold the last point)
+    };
+
+// Device emulator options
+export interface EmulatorOptions {
+  profile?: MotionProfile; // (default: constant, at rest with Z up)
+  realTime?: boolean; // follow the wall clock; otherwise time only moves with advance() (default: true)
+  freqFine?: number; // factory INTERNAL_FREQ_FINE trim, -128..127 (default: 0)
+}
+
+// Register interface call captured by a bus recording
+export type BusOperation = 'readByte' | 'readWord' | 'readBlock' | 'writeByte' | 'writeWord' | 'writeBlock' | 'close';
+
+// One recorded register interface call
+export interface BusTransaction {
+  operation: BusOperation;
+  register: number; // 0 for close
+  data: Buffer; // bytes read or written, words little-endian (zeros for failed reads)
+  time: number; // ms since the recording started
+  error?: string; // message of the error the call threw
+}
+
+// Bus the sensor is connected to
+export type Transport = 'i2c' | 'spi';
+
+// Bus-agnostic register access, implemented by each transport
+export interface RegisterInterface {
   readByte(register: number): number;
   readWord(register: number): number;
   readBlock(register: number, length: number): Buffer;
@@ -64,6 +602,84 @@ export interface I2CInterface {
   close(): void;
 }
 
+// Promise-based register access that does not block the event loop
+export interface AsyncRegisterInterface {
+  readByte(register: number): Promise<number>;
+  readWord(register: number): Promise<number>;
+  readBlock(register: number, length: number): Promise<Buffer>;
+  writeByte(register: number, value: number): Promise<void>;
+  writeWord(register: number, value: number): Promise<void>;
+  writeBlock(register: number, buffer: Buffer): Promise<void>;
+  close(): Promise<void>;
+}
+
+// Driver flavour: LSM6DSR returns values, LSM6DSRAsync returns Promises
+export type BusMode = 'sync' | 'async';
+
+// Return type of driver methods that access the bus
+export type MaybeAsync<M extends BusMode, T> = M extends 'async' ? Promise<T> : T;
+
+// I2C interface abstraction (the register interface predates SPI support)
+export type I2CInterface = RegisterInterface;
+export type AsyncI2CInterface = AsyncRegisterInterface;
+
+// One full-duplex SPI transfer (same shape as spi-device messages)
+export interface SPITransfer {
+  byteLength: number;
+  sendBuffer?: Buffer;
+  receiveBuffer?: Buffer;
+  speedHz?: number;
+}
+
+// Opened SPI device (spidev), e.g. a spi-device SpiDevice or MockSPIDevice
+export interface SPIDeviceInterface {
+  transferSync(message: SPITransfer[]): unknown;
+  transfer(message: SPITransfer[], callback: (err: Error | null | undefined) => void): unknown;
+  closeSync(): void;
+  close(callback: (err: Error | null | undefined) => void): void;
+}
+
+// GPIO input line connected to an interrupt pin
+export interface GPIOInterface {
+  read(): number;
+  watch(edge: GPIOEdge, callback: (value: number) => void): void;
+  unwatch(): void;
+}
+
+export type GPIOEdge = 'rising' | 'falling' | 'both';
+
 // Callback types for async operations
-export type DataReadyCallback = (data: IMUData) => void;
+export type DataReadyCallback<U extends UnitSystem = DefaultUnits> = (data: IMUData<U>) => void;
 export type ErrorCallback = (error: Error) => void;
+export type FIFOEventCallback = (status: FIFOStatus) => void;
+export type InterruptCallback = (pin: InterruptPin) => void;
+export type TapCallback = (event: TapEvent) => void;
+export type ActivityCallback = (event: ActivityEvent) => void;
+export type FreeFallCallback = (event: FreeFallEvent) => void;
+export type OrientationCallback = (event: OrientationEvent) => void;
+export type StepCallback = (event: StepEvent) => void;
+export type MotionCallback = (event: MotionEvent) => void;
+export type FSMCallback = (event: FSMEvent) => void;
+export type FSMLongCounterCallback = (event: FSMLongCounterEvent) => void;
+export type SensorHubCallback = (data: Buffer[]) => void;
+export type CalibrationPositionPrompt = (orientation: Orientation, step: number) => Promise<void> | void;
+
+// Events emitted by LSM6DSR
+export interface LSM6DSREvents<U extends UnitSystem = DefaultUnits> {
+  dataReady: DataReadyCallback<U>;
+  fifoWatermark: FIFOEventCallback;
+  fifoOverrun: FIFOEventCallback;
+  fifoFull: FIFOEventCallback;
+  tap: TapCallback;
+  activity: ActivityCallback;
+  freeFall: FreeFallCallback;
+  orientation: OrientationCallback;
+  step: StepCallback;
+  significantMotion: MotionCallback;
+  tilt: MotionCallback;
+  fsm: FSMCallback;
+  fsmLongCounter: FSMLongCounterCallback;
+  sensorHub: SensorHubCallback;
+  interrupt: InterruptCallback;
+  error: ErrorCallback;
+}
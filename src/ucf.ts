@@ -0,0 +1,62 @@
+/**
+ * ST Unico Configuration File (.ucf) parser
+ *
+ * A .ucf file is a register script exported by ST tools (Unico, MEMS Studio)
+ * for FSM and other embedded function configurations:
+ *
+ * ```
+ * --LSM6DSR
+ * Ac 10 00
+ * Ac 01 80
+ * WAIT 5
+ * ```
+ *
+ * `Ac <register> <value>` writes a register (hex), `WAIT <ms>` pauses and
+ * lines starting with `--` or `;` are comments.
+ *
+ * Machine Learning Core configurations are not supported: the MLC is part of
+ * the LSM6DSRX and its registers do not exist on the LSM6DSR.
+ */
+
+import { UCFCommand } from './types';
+
+/**
+ * Parse a .ucf register script into write and wait commands
+ */
+export function parseUCF(script: string): UCFCommand[] {
+  const commands: UCFCommand[] = [];
+  const lines = script.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (line === '' || line.startsWith('--') || line.startsWith(';')) {
+      continue;
+    }
+
+    const fields = line.split(/\s+/);
+    const keyword = fields[0].toUpperCase();
+
+    if (keyword === 'AC' && fields.length === 3) {
+      const register = parseInt(fields[1], 16);
+      const value = parseInt(fields[2], 16);
+      if (isByte(register) && isByte(value)) {
+        commands.push({ type: 'write', register, value });
+        continue;
+      }
+    } else if (keyword === 'WAIT' && fields.length === 2) {
+      const ms = Number(fields[1]);
+      if (Number.isFinite(ms) && ms >= 0) {
+        commands.push({ type: 'wait', ms });
+        continue;
+      }
+    }
+
+    throw new Error(`Invalid UCF line ${i + 1}: "${line}"`);
+  }
+
+  return commands;
+}
+
+function isByte(value: number): boolean {
+  return Number.isInteger(value) && value >= 0 && value <= 0xff;
+}
@@ -0,0 +1,136 @@
+/**
+ * Output unit conversion
+ *
+ * The driver computes every reading in mg, mdps and °C and converts it to the
+ * selected units on the way out, so calibration, event thresholds and fusion
+ * keep working in one unit system internally.
+ */
+
+import {
+  Vector3D,
+  IMUData,
+  AccelUnit,
+  GyroUnit,
+  TemperatureUnit,
+  UnitSystem,
+  DefaultUnits,
+  OutputUnits,
+  ResolveUnits,
+  AccelVector,
+  GyroVector,
+  Temperature,
+  AttitudeEstimate,
+} from './types';
+
+// Standard gravity (m/s²)
+export const STANDARD_GRAVITY = 9.80665;
+
+export const DEFAULT_UNITS: DefaultUnits = { accel: 'mg', gyro: 'mdps', temperature: 'C' };
+
+// Size of one unit in mg / mdps
+const ACCEL_SCALE: Record<AccelUnit, number> = { mg: 1, g: 1000, 'm/s2': 1000 / STANDARD_GRAVITY };
+const GYRO_SCALE: Record<GyroUnit, number> = { mdps: 1, dps: 1000, 'rad/s': 180000 / Math.PI };
+
+// Temperature offset from °C
+const TEMPERATURE_OFFSET: Record<TemperatureUnit, number> = { C: 0, K: 273.15 };
+
+/**
+ * Apply a unit selection over a unit system, rejecting unknown units
+ */
+export function resolveUnits<O extends OutputUnits, U extends UnitSystem = DefaultUnits>(
+  units: O | undefined,
+  base: U = DEFAULT_UNITS as U
+): ResolveUnits<O, U> {
+  const resolved = { ...base } as UnitSystem;
+  if (units?.accel !== undefined) resolved.accel = checkUnit(units.accel, ACCEL_SCALE, 'accelerometer');
+  if (units?.gyro !== undefined) resolved.gyro = checkUnit(units.gyro, GYRO_SCALE, 'gyroscope');
+  if (units?.temperature !== undefined) {
+    resolved.temperature = checkUnit(units.temperature, TEMPERATURE_OFFSET, 'temperature');
+  }
+  return resolved as ResolveUnits<O, U>;
+}
+
+function checkUnit<T extends string>(unit: T, table: Record<T, number>, quantity: string): T {
+  if (!Object.prototype.hasOwnProperty.call(table, unit)) {
+    throw new Error(`Unknown ${quantity} unit "${unit}", expected one of ${Object.keys(table).join(', ')}`);
+  }
+  return unit;
+}
+
+/**
+ * Convert an acceleration vector
+ * @param from - Unit of `value` (default: mg)
+ */
+export function convertAccel<U extends AccelUnit>(value: Vector3D, to: U, from: AccelUnit = 'mg'): AccelVector<U> {
+  return scaleVector(value, ACCEL_SCALE[from], ACCEL_SCALE[to]);
+}
+
+/**
+ * Convert an angular rate vector
+ * @param from - Unit of `value` (default: mdps)
+ */
+export function convertGyro<U extends GyroUnit>(value: Vector3D, to: U, from: GyroUnit = 'mdps'): GyroVector<U> {
+  return scaleVector(value, GYRO_SCALE[from], GYRO_SCALE[to]);
+}
+
+/**
+ * Convert a temperature
+ * @param from - Unit of `value` (default: °C)
+ */
+export function convertTemperature<U extends TemperatureUnit>(
+  value: number,
+  to: U,
+  from: TemperatureUnit = 'C'
+): Temperature<U> {
+  return value - TEMPERATURE_OFFSET[from] + TEMPERATURE_OFFSET[to];
+}
+
+/**
+ * Convert every quantity of a sample, including its attitude estimate
+ */
+export function convertIMUData<U extends UnitSystem>(
+  data: IMUData<UnitSystem>,
+  to: U,
+  from: UnitSystem = DEFAULT_UNITS
+): IMUData<U> {
+  const converted: IMUData<U> = {
+    accel: convertAccel(data.accel, to.accel, from.accel),
+    gyro: convertGyro(data.gyro, to.gyro, from.gyro),
+  };
+  if (data.temperature !== undefined) {
+    converted.temperature = convertTemperature(data.temperature, to.temperature, from.temperature);
+  }
+  if (data.timestamp !== undefined) {
+    converted.timestamp = data.timestamp;
+  }
+  if (data.attitude !== undefined) {
+    converted.attitude = convertAttitude(data.attitude, to.accel, from.accel);
+  }
+  return converted;
+}
+
+/**
+ * Convert the gravity and linear acceleration of an attitude estimate
+ */
+export function convertAttitude<U extends AccelUnit>(
+  attitude: AttitudeEstimate<AccelUnit>,
+  to: U,
+  from: AccelUnit = 'mg'
+): AttitudeEstimate<U> {
+  return {
+    ...attitude,
+    gravity: convertAccel(attitude.gravity, to, from),
+    linearAccel: convertAccel(attitude.linearAccel, to, from),
+  };
+}
+
+function scaleVector(value: Vector3D, from: number, to: number): Vector3D {
+  if (from === to) {
+    return { x: value.x, y: value.y, z: value.z };
+  }
+  return {
+    x: (value.x * from) / to,
+    y: (value.y * from) / to,
+    z: (value.z * from) / to,
+  };
+}
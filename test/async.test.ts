@@ -0,0 +1,92 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  LSM6DSRAsync,
+  LSM6DSREmulator,
+  AsyncI2CAdapter,
+  Registers,
+  EmbeddedRegisters,
+  LSM6DSR_ID,
+} from '../src';
+
+// Async bus over the emulator that settles every transfer on a later tick and logs it
+class SlowBus extends AsyncI2CAdapter {
+  readonly log: Array<[string, number]> = [];
+  failOn: number | null = null; // Register whose reads reject
+
+  private async transfer(operation: string, register: number): Promise<void> {
+    this.log.push([operation, register]);
+    await new Promise((resolve) => setImmediate(resolve));
+    if (operation.startsWith('read') && register === this.failOn) {
+      throw new Error(`Bus error reading 0x${register.toString(16)}`);
+    }
+  }
+
+  async readByte(register: number): Promise<number> {
+    await this.transfer('readByte', register);
+    return super.readByte(register);
+  }
+
+  async readBlock(register: number, length: number): Promise<Buffer> {
+    await this.transfer('readBlock', register);
+    return super.readBlock(register, length);
+  }
+
+  async writeByte(register: number, value: number): Promise<void> {
+    await this.transfer('writeByte', register);
+    return super.writeByte(register, value);
+  }
+}
+
+async function createSensor(): Promise<{ sensor: LSM6DSRAsync; bus: SlowBus; emulator: LSM6DSREmulator }> {
+  const emulator = new LSM6DSREmulator({ realTime: false });
+  const bus = new SlowBus(emulator);
+  const sensor = LSM6DSRAsync.withI2C(bus);
+  await sensor.begin();
+  bus.log.length = 0;
+  return { sensor, bus, emulator };
+}
+
+test('concurrent calls run one after another in call order', async () => {
+  const { sensor, bus } = await createSensor();
+  const order: string[] = [];
+
+  await Promise.all([
+    sensor.readStepCount().then(() => order.push('steps')),
+    sensor.readWhoAmI().then(() => order.push('whoAmI')),
+  ]);
+
+  assert.deepEqual(order, ['steps', 'whoAmI']);
+  // WHO_AM_I is read only once the main page is selected again
+  assert.deepEqual(bus.log, [
+    ['writeByte', Registers.FUNC_CFG_ACCESS],
+    ['readBlock', EmbeddedRegisters.STEP_COUNTER_L],
+    ['writeByte', Registers.FUNC_CFG_ACCESS],
+    ['readByte', Registers.WHO_AM_I],
+  ]);
+});
+
+test('public methods called inside an operation do not wait for it', { timeout: 2000 }, async () => {
+  const emulator = new LSM6DSREmulator({ realTime: false });
+  const sensor = LSM6DSRAsync.withI2C(new SlowBus(emulator));
+
+  // begin() calls readWhoAmI(), setAutoIncrement() and others while it holds the bus
+  const [started, whoAmI] = await Promise.all([sensor.begin(), sensor.readWhoAmI()]);
+  assert.equal(started, true);
+  assert.equal(whoAmI, LSM6DSR_ID);
+});
+
+test('a failed transfer rejects only its own call', async () => {
+  const { sensor, bus, emulator } = await createSensor();
+  bus.failOn = EmbeddedRegisters.STEP_COUNTER_L;
+
+  const [steps, whoAmI] = await Promise.allSettled([sensor.readStepCount(), sensor.readWhoAmI()]);
+  assert.equal(steps.status, 'rejected');
+  assert.match((steps as PromiseRejectedResult).reason.message, /Bus error reading 0x62/);
+  assert.deepEqual(whoAmI, { status: 'fulfilled', value: LSM6DSR_ID });
+
+  // The failed operation still switched back to the main page
+  assert.equal(emulator.getRegister(Registers.FUNC_CFG_ACCESS), 0);
+  bus.failOn = null;
+  assert.equal(await sensor.readStepCount(), 0);
+});
@@ -0,0 +1,91 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  LSM6DSR,
+  LSM6DSREmulator,
+  AccelODR,
+  SIX_POSITION_ORDER,
+  gravityVector,
+  solveAccelCalibration,
+  applyAccelCalibration,
+  AccelCalibrationPosition,
+  Vector3D,
+} from '../src';
+
+const BIAS: Vector3D = { x: 0.04, y: -0.03, z: 0.06 }; // g
+const SCALE: Vector3D = { x: 1.05, y: 0.97, z: 1.02 };
+
+// Reading of a sensor with BIAS and SCALE for the given true acceleration (g)
+function distort(v: Vector3D): Vector3D {
+  return { x: v.x * SCALE.x + BIAS.x, y: v.y * SCALE.y + BIAS.y, z: v.z * SCALE.z + BIAS.z };
+}
+
+function assertClose(actual: Vector3D, expected: Vector3D, tolerance: number) {
+  for (const axis of ['x', 'y', 'z'] as const) {
+    assert.ok(Math.abs(actual[axis] - expected[axis]) < tolerance, `${axis}: ${actual[axis]} != ${expected[axis]}`);
+  }
+}
+
+test('the solver recovers a known bias and scale', () => {
+  const positions: AccelCalibrationPosition[] = SIX_POSITION_ORDER.map((orientation) => ({
+    orientation,
+    mean: distort(gravityVector(orientation)),
+  }));
+  const calibration = solveAccelCalibration(positions);
+
+  assertClose(calibration.bias, BIAS, 1e-9);
+  const diagonal = { x: calibration.matrix[0][0], y: calibration.matrix[1][1], z: calibration.matrix[2][2] };
+  assertClose(diagonal, { x: 1 / SCALE.x, y: 1 / SCALE.y, z: 1 / SCALE.z }, 1e-9);
+  assert.ok(Math.abs(calibration.matrix[0][1]) < 1e-9 && Math.abs(calibration.matrix[2][0]) < 1e-9);
+  assert.ok(calibration.residual!.max < 1e-9);
+
+  // Readings in mg are corrected with the bias scaled accordingly
+  const reading = distort({ x: 0.6, y: 0, z: 0.8 });
+  const mg = { x: reading.x * 1000, y: reading.y * 1000, z: reading.z * 1000 };
+  assertClose(applyAccelCalibration(calibration, mg, 1000), { x: 600, y: 0, z: 800 }, 1e-6);
+});
+
+test('the solver rejects missing and degenerate positions', () => {
+  const positions: AccelCalibrationPosition[] = SIX_POSITION_ORDER.map((orientation) => ({
+    orientation,
+    mean: gravityVector(orientation),
+  }));
+  assert.throws(() => solveAccelCalibration(positions.slice(0, 5)), /missing positions: Y_DOWN/);
+
+  // A sensor stuck on one reading gives no information about scale
+  const stuck = positions.map((position) => ({ ...position, mean: { x: 0, y: 0, z: 1 } }));
+  assert.throws(() => solveAccelCalibration(stuck), /singular/);
+});
+
+test('the guided workflow calibrates against the emulator', async () => {
+  const emulator = new LSM6DSREmulator();
+  const sensor = LSM6DSR.withI2C(emulator, { accelODR: AccelODR.Hz_833 });
+  sensor.begin();
+  sensor.enableAccel();
+
+  const prompted: string[] = [];
+  const calibration = await sensor.calibrateAccelSixPosition(
+    (orientation, step) => {
+      prompted.push(`${step}:${orientation}`);
+      const g = distort(gravityVector(orientation));
+      emulator.setMotionProfile({ type: 'constant', accel: { x: g.x * 1000, y: g.y * 1000, z: g.z * 1000 } });
+      emulator.advance(5); // Flush samples taken in the previous position
+    },
+    { samples: 10 }
+  );
+
+  assert.deepEqual(prompted, SIX_POSITION_ORDER.map((orientation, i) => `${i + 1}:${orientation}`));
+  assertClose(calibration.bias, BIAS, 1e-3);
+  assertClose(sensor.readAccelG(), { x: 0, y: -1, z: 0 }, 1e-3); // Still lying Y_DOWN, now corrected
+});
+
+test('the guided workflow rejects a position the device is not in', async () => {
+  const emulator = new LSM6DSREmulator();
+  const sensor = LSM6DSR.withI2C(emulator, { accelODR: AccelODR.Hz_833 });
+  sensor.begin();
+  sensor.enableAccel();
+
+  // The device stays flat instead of being turned over
+  await assert.rejects(sensor.calibrateAccelSixPosition(() => {}, { samples: 10 }), /not in the Z_DOWN position/);
+  assert.equal(sensor.getAccelCalibration(), null);
+});
@@ -0,0 +1,207 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  LSM6DSR,
+  LSM6DSREmulator,
+  Registers,
+  EmbeddedRegisters,
+  EmbeddedAdvancedRegisters,
+  FSMODR,
+  FSM_START_ADDRESS,
+  SensorHubRegisters,
+  SensorHubODR,
+} from '../src';
+import { FUNC_CFG_EMBEDDED, FUNC_CFG_SENSOR_HUB } from '../src/helpers';
+
+function createSensor(emulator: LSM6DSREmulator): LSM6DSR {
+  const sensor = LSM6DSR.withI2C(emulator);
+  sensor.begin();
+  return sensor;
+}
+
+// Records every FUNC_CFG_ACCESS write, i.e. every register bank switch
+function recordBanks(emulator: LSM6DSREmulator): number[] {
+  const banks: number[] = [];
+  const writeByte = emulator.writeByte.bind(emulator);
+  emulator.writeByte = (register, value) => {
+    if (register === Registers.FUNC_CFG_ACCESS) banks.push(value);
+    writeByte(register, value);
+  };
+  return banks;
+}
+
+function assertMainPage(emulator: LSM6DSREmulator) {
+  assert.equal(emulator.getRegister(Registers.FUNC_CFG_ACCESS), 0);
+  assert.equal(emulator.getRegister(EmbeddedRegisters.PAGE_RW, FUNC_CFG_EMBEDDED), 0);
+}
+
+test('the step counter is read and reset in the embedded page', () => {
+  const emulator = new LSM6DSREmulator({ realTime: false });
+  const sensor = createSensor(emulator);
+  const banks = recordBanks(emulator);
+
+  emulator.setRegister(EmbeddedRegisters.STEP_COUNTER_L, 0x34, FUNC_CFG_EMBEDDED);
+  emulator.setRegister(EmbeddedRegisters.STEP_COUNTER_H, 0x12, FUNC_CFG_EMBEDDED);
+  assert.equal(sensor.readStepCount(), 0x1234);
+  assert.deepEqual(banks, [FUNC_CFG_EMBEDDED, 0]);
+
+  const mainPage = emulator.getRegister(EmbeddedRegisters.EMB_FUNC_SRC);
+  sensor.resetStepCount();
+  assert.equal(emulator.getRegister(EmbeddedRegisters.EMB_FUNC_SRC, FUNC_CFG_EMBEDDED) & 0x80, 0x80); // PEDO_RST_STEP
+  assert.equal(emulator.getRegister(EmbeddedRegisters.EMB_FUNC_SRC), mainPage);
+  assertMainPage(emulator);
+});
+
+test('the pedometer is configured in the embedded and advanced pages', () => {
+  const emulator = new LSM6DSREmulator({ realTime: false });
+  const sensor = createSensor(emulator);
+
+  sensor.enablePedometer({ debounceSteps: 7, falsePositiveRejection: true });
+  assert.equal(emulator.getAdvancedRegister(EmbeddedAdvancedRegisters.PEDO_DEB_STEPS_CONF), 7);
+  assert.equal(emulator.getAdvancedRegister(EmbeddedAdvancedRegisters.PEDO_CMD_REG) & 0x04, 0x04); // FP_REJECTION_EN
+  assert.equal(emulator.getRegister(EmbeddedRegisters.EMB_FUNC_EN_A, FUNC_CFG_EMBEDDED) & 0x08, 0x08); // PEDO_EN
+  assert.equal(emulator.getRegister(EmbeddedRegisters.EMB_FUNC_EN_B, FUNC_CFG_EMBEDDED) & 0x10, 0x10); // PEDO_ADV_EN
+  assertMainPage(emulator);
+
+  sensor.disablePedometer();
+  assert.equal(emulator.getRegister(EmbeddedRegisters.EMB_FUNC_EN_A, FUNC_CFG_EMBEDDED) & 0x08, 0);
+  assertMainPage(emulator);
+
+  assert.throws(() => sensor.enablePedometer({ debounceSteps: 256 }), /Invalid pedometer debounce/);
+});
+
+test('the main page is restored when an embedded access fails', () => {
+  const emulator = new LSM6DSREmulator({ realTime: false });
+  const sensor = createSensor(emulator);
+  const banks = recordBanks(emulator);
+
+  const readBlock = emulator.readBlock.bind(emulator);
+  emulator.readBlock = () => {
+    throw new Error('Remote I/O error');
+  };
+  assert.throws(() => sensor.readStepCount(), /Remote I\/O error/);
+  assert.deepEqual(banks, [FUNC_CFG_EMBEDDED, 0]);
+  assertMainPage(emulator);
+
+  emulator.readBlock = readBlock;
+  assert.equal(sensor.readStepCount(), 0);
+});
+
+test('FSM programs are written to the advanced pages and enabled', () => {
+  const emulator = new LSM6DSREmulator({ realTime: false });
+  const sensor = createSensor(emulator);
+  const banks = recordBanks(emulator);
+
+  // The second program crosses from page 4 into page 5
+  const programs = [[0x91, 0x10, 0x16], Array.from({ length: 300 }, (_, i) => i & 0xff)];
+  sensor.loadFSMPrograms(programs, { odr: FSMODR.Hz_104, longCounterTimeout: 0x1234 });
+  assert.deepEqual(banks, [FUNC_CFG_EMBEDDED, 0]); // Nested page accesses share one switch
+
+  const image = programs.flat();
+  assert.deepEqual(image.map((_, i) => emulator.getAdvancedRegister(FSM_START_ADDRESS + i)), image);
+  assert.equal(emulator.getAdvancedRegister(EmbeddedAdvancedRegisters.FSM_PROGRAMS), 2);
+  assert.equal(emulator.getAdvancedRegister(EmbeddedAdvancedRegisters.FSM_START_ADD_L), FSM_START_ADDRESS & 0xff);
+  assert.equal(emulator.getAdvancedRegister(EmbeddedAdvancedRegisters.FSM_START_ADD_H), FSM_START_ADDRESS >> 8);
+  assert.equal(emulator.getAdvancedRegister(EmbeddedAdvancedRegisters.FSM_LC_TIMEOUT_L), 0x34);
+  assert.equal(emulator.getAdvancedRegister(EmbeddedAdvancedRegisters.FSM_LC_TIMEOUT_H), 0x12);
+
+  const embedded = (register: number) => emulator.getRegister(register, FUNC_CFG_EMBEDDED);
+  assert.equal((embedded(EmbeddedRegisters.EMB_FUNC_ODR_CFG_B) >> 3) & 0x07, FSMODR.Hz_104);
+  assert.equal(embedded(EmbeddedRegisters.FSM_ENABLE_A), 0x03);
+  assert.equal(embedded(EmbeddedRegisters.FSM_ENABLE_B), 0x00);
+  assert.equal(embedded(EmbeddedRegisters.EMB_FUNC_EN_B) & 0x01, 0x01); // FSM_EN
+  assert.equal(embedded(EmbeddedRegisters.EMB_FUNC_INIT_B) & 0x01, 0x01); // FSM_INIT
+  assert.equal(embedded(EmbeddedRegisters.PAGE_SEL), 0x01);
+  assertMainPage(emulator);
+
+  assert.throws(() => sensor.loadFSMPrograms([]), /Invalid FSM program count 0/);
+});
+
+test('state machines are enabled and read in the embedded page', () => {
+  const emulator = new LSM6DSREmulator({ realTime: false });
+  const sensor = createSensor(emulator);
+  const embedded = (register: number) => emulator.getRegister(register, FUNC_CFG_EMBEDDED);
+
+  sensor.enableFSM(10);
+  assert.equal(embedded(EmbeddedRegisters.FSM_ENABLE_B), 0x02);
+  sensor.disableFSM(10);
+  assert.equal(embedded(EmbeddedRegisters.FSM_ENABLE_B), 0x00);
+  assert.throws(() => sensor.enableFSM(17));
+
+  emulator.setRegister(EmbeddedRegisters.FSM_LONG_COUNTER_L, 0x02, FUNC_CFG_EMBEDDED);
+  emulator.setRegister(EmbeddedRegisters.FSM_LONG_COUNTER_H, 0x01, FUNC_CFG_EMBEDDED);
+  emulator.setRegister(EmbeddedRegisters.FSM_OUTS1 + 15, 0x80, FUNC_CFG_EMBEDDED);
+  assert.equal(sensor.readFSMLongCounter(), 0x0102);
+  assert.equal(sensor.readFSMOutputs()[15], 0x80);
+
+  sensor.resetFSMLongCounter();
+  assert.equal(embedded(EmbeddedRegisters.FSM_LONG_COUNTER_CLEAR), 0x01);
+  assertMainPage(emulator);
+
+  // The interrupt status is mirrored on the main page, no switch needed
+  const banks = recordBanks(emulator);
+  emulator.setRegister(Registers.FSM_STATUS_A_MAINPAGE, 0x05);
+  emulator.setRegister(Registers.FSM_STATUS_B_MAINPAGE, 0x80);
+  assert.deepEqual(sensor.readFSMStatus(), [1, 3, 16]);
+  assert.deepEqual(banks, []);
+});
+
+test('sensor hub slaves are configured in the sensor hub page', () => {
+  const emulator = new LSM6DSREmulator({ realTime: false });
+  const sensor = createSensor(emulator);
+  const banks = recordBanks(emulator);
+  const hub = (register: number) => emulator.getRegister(register, FUNC_CFG_SENSOR_HUB);
+
+  sensor.configureSensorHub({
+    slaves: [
+      { address: 0x1e, register: 0x68, length: 6 },
+      { address: 0x5d, register: 0x28, length: 3, batchToFIFO: true },
+    ],
+    odr: SensorHubODR.Hz_26,
+    pullUp: true,
+  });
+  assert.deepEqual(banks, [FUNC_CFG_SENSOR_HUB, 0]);
+  assert.equal(hub(SensorHubRegisters.SLV0_ADD), 0x3d); // Address << 1 | read
+  assert.equal(hub(SensorHubRegisters.SLV0_SUBADD), 0x68);
+  assert.equal(hub(SensorHubRegisters.SLV0_CONFIG), (SensorHubODR.Hz_26 << 6) | 6);
+  assert.equal(hub(SensorHubRegisters.SLV1_ADD), 0xbb);
+  assert.equal(hub(SensorHubRegisters.SLV1_CONFIG), 0x08 | 3);
+  assert.equal(hub(SensorHubRegisters.SLV2_CONFIG), 0);
+  assert.equal(hub(SensorHubRegisters.MASTER_CONFIG), 0x08 | 1); // SHUB_PU_EN, two slaves
+
+  sensor.startSensorHub();
+  assert.equal(hub(SensorHubRegisters.MASTER_CONFIG) & 0x04, 0x04); // MASTER_ON
+
+  for (let i = 0; i < 9; i++) {
+    emulator.setRegister(SensorHubRegisters.SENSOR_HUB_1 + i, i + 1, FUNC_CFG_SENSOR_HUB);
+  }
+  assert.deepEqual(sensor.readSensorHubData(), [Buffer.from([1, 2, 3, 4, 5, 6]), Buffer.from([7, 8, 9])]);
+
+  sensor.stopSensorHub();
+  assert.equal(hub(SensorHubRegisters.MASTER_CONFIG) & 0x04, 0);
+  assert.equal(emulator.getRegister(Registers.FUNC_CFG_ACCESS), 0);
+});
+
+test('sensor hub writes restore the slave 0 read configuration', () => {
+  const emulator = new LSM6DSREmulator({ realTime: false });
+  const sensor = createSensor(emulator);
+  const hub = (register: number) => emulator.getRegister(register, FUNC_CFG_SENSOR_HUB);
+  sensor.configureSensorHub({ slaves: [{ address: 0x1e, register: 0x68, length: 6 }] });
+  sensor.startSensorHub();
+  const slave0 = () => [SensorHubRegisters.SLV0_ADD, SensorHubRegisters.SLV0_SUBADD, SensorHubRegisters.SLV0_CONFIG].map(hub);
+  const configured = slave0();
+  const masterConfig = hub(SensorHubRegisters.MASTER_CONFIG);
+
+  emulator.setRegister(SensorHubRegisters.STATUS_MASTER, 0x80, FUNC_CFG_SENSOR_HUB); // WR_ONCE_DONE
+  sensor.writeSensorHubRegister(0x1e, 0x60, 0x8c);
+  assert.equal(hub(SensorHubRegisters.DATAWRITE_SLV0), 0x8c);
+  assert.deepEqual(slave0(), configured);
+  assert.equal(hub(SensorHubRegisters.MASTER_CONFIG), masterConfig);
+  assert.equal(emulator.getRegister(Registers.FUNC_CFG_ACCESS), 0);
+
+  emulator.setRegister(SensorHubRegisters.STATUS_MASTER, 0x88, FUNC_CFG_SENSOR_HUB); // SLAVE0_NACK
+  assert.throws(() => sensor.writeSensorHubRegister(0x1e, 0x60, 0x8c), /did not acknowledge/);
+  assert.deepEqual(slave0(), configured);
+  assert.equal(hub(SensorHubRegisters.MASTER_CONFIG), masterConfig);
+  assert.equal(emulator.getRegister(Registers.FUNC_CFG_ACCESS), 0);
+});
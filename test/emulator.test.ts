@@ -0,0 +1,319 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { once } from 'node:events';
+import {
+  LSM6DSR,
+  LSM6DSREmulator,
+  MockGPIO,
+  Registers,
+  LSM6DSR_ID,
+  TIMESTAMP_RESOLUTION_US,
+  AccelODR,
+  GyroODR,
+  FIFOMode,
+  FIFOAccelBDR,
+  FIFOGyroBDR,
+  FIFOTag,
+  FreeFallThreshold,
+  SixDThreshold,
+  InterruptPin,
+  FIFOSample,
+  TapEvent,
+  FreeFallEvent,
+} from '../src';
+
+function createSensor(emulator: LSM6DSREmulator): LSM6DSR {
+  const sensor = LSM6DSR.withI2C(emulator, { accelODR: AccelODR.Hz_104, gyroODR: GyroODR.Hz_104 });
+  sensor.begin();
+  return sensor;
+}
+
+test('reset restores register defaults and WHO_AM_I', () => {
+  const emulator = new LSM6DSREmulator({ realTime: false });
+  const sensor = createSensor(emulator);
+  assert.equal(sensor.readWhoAmI(), LSM6DSR_ID);
+
+  sensor.enableAccel();
+  sensor.writeRegister(Registers.FIFO_CTRL1, 0x20);
+  sensor.reset();
+
+  assert.equal(emulator.getRegister(Registers.CTRL3_C), 0x04); // IF_INC only, SW_RESET cleared
+  assert.equal(emulator.getRegister(Registers.CTRL1_XL), 0x00);
+  assert.equal(emulator.getRegister(Registers.FIFO_CTRL1), 0x00);
+  assert.equal(sensor.readWhoAmI(), LSM6DSR_ID);
+});
+
+test('begin rejects a device with a different WHO_AM_I', () => {
+  const emulator = new LSM6DSREmulator({ realTime: false });
+  emulator.setRegister(Registers.WHO_AM_I, 0x6a);
+  assert.throws(() => LSM6DSR.withI2C(emulator).begin(), /WHO_AM_I returned 0x6a/);
+});
+
+test('data-ready follows the output data rate', () => {
+  const emulator = new LSM6DSREmulator({
+    realTime: false,
+    profile: { type: 'constant', accel: { x: 100, y: -200, z: 980 }, gyro: { x: 1000, y: 0, z: -500 } },
+  });
+  const sensor = createSensor(emulator);
+  assert.equal(sensor.isAccelDataReady(), false);
+
+  sensor.enableAccel();
+  sensor.enableGyro();
+  emulator.advance(5);
+  assert.equal(sensor.isAccelDataReady(), false);
+
+  emulator.advance(10); // past the first 104 Hz sample
+  const status = sensor.getStatus();
+  assert.equal(status.accelDataReady, true);
+  assert.equal(status.gyroDataReady, true);
+
+  const accel = sensor.readAccel();
+  assert.ok(Math.abs(accel.x - 100) < 1 && Math.abs(accel.y + 200) < 1 && Math.abs(accel.z - 980) < 1);
+  assert.equal(sensor.isAccelDataReady(), false);
+  assert.equal(sensor.isGyroDataReady(), true);
+
+  const gyro = sensor.readGyro();
+  assert.ok(Math.abs(gyro.x - 1000) < 100 && Math.abs(gyro.z + 500) < 100);
+  assert.equal(sensor.isGyroDataReady(), false);
+});
+
+const TIMESTAMP_RANGE = 2 ** 32;
+
+test('timestamps keep increasing across counter rollovers', () => {
+  const emulator = new LSM6DSREmulator({ realTime: false });
+  const sensor = createSensor(emulator);
+  sensor.enableTimestamp();
+
+  const period = (TIMESTAMP_RANGE * TIMESTAMP_RESOLUTION_US) / 1000; // ms
+  emulator.advance(period - 100);
+  assert.ok(sensor.readRawTimestamp() > TIMESTAMP_RANGE - 4001);
+  const start = sensor.readTimestamp();
+
+  emulator.advance(200);
+  assert.ok(sensor.readRawTimestamp() < 4001);
+  assert.ok(Math.abs(sensor.readTimestamp() - start - 200_000) <= TIMESTAMP_RESOLUTION_US);
+
+  // Reading more often than every half period tracks any number of rollovers
+  for (let i = 0; i < 5; i++) {
+    emulator.advance(period * 0.4);
+    sensor.readTimestamp();
+  }
+  const elapsed = sensor.readTimestamp() - start;
+  assert.ok(Math.abs(elapsed - (200 + 2 * period) * 1000) <= 2 * TIMESTAMP_RESOLUTION_US, `${elapsed}`);
+
+  sensor.resetTimestamp();
+  assert.ok(sensor.readTimestamp() < TIMESTAMP_RESOLUTION_US);
+});
+
+test('the timestamp resolution is trimmed by INTERNAL_FREQ_FINE', () => {
+  for (const freqFine of [20, -30]) {
+    const emulator = new LSM6DSREmulator({ realTime: false, freqFine });
+    const sensor = createSensor(emulator);
+    sensor.enableTimestamp();
+
+    const resolution = TIMESTAMP_RESOLUTION_US / (1 + 0.0015 * freqFine);
+    assert.equal(sensor.getTimestampResolution(), resolution);
+
+    // 1 s counts more (faster clock) or fewer ticks than at the nominal 25 µs
+    emulator.advance(1000);
+    assert.ok(Math.abs(sensor.readRawTimestamp() - 1e6 / resolution) <= 1, `${freqFine}`);
+    assert.ok(Math.abs(sensor.readTimestamp() - 1e6) <= resolution, `${freqFine}`);
+  }
+});
+
+test('FIFO tags batched samples by sensor', () => {
+  const emulator = new LSM6DSREmulator({ realTime: false });
+  const sensor = createSensor(emulator);
+  sensor.enableAccel();
+  sensor.enableGyro();
+  sensor.configureFIFO({
+    accelBatchRate: FIFOAccelBDR.Hz_104,
+    gyroBatchRate: FIFOGyroBDR.Hz_52,
+    mode: FIFOMode.STREAM,
+  });
+  emulator.advance(100);
+
+  const samples: FIFOSample[] = sensor.readFIFO();
+  const accel = samples.filter((sample) => sample.sensor === 'accel');
+  const gyro = samples.filter((sample) => sample.sensor === 'gyro');
+  assert.equal(accel.length + gyro.length, samples.length);
+  assert.ok(accel.length >= 10 && accel.length <= 11);
+  assert.ok(gyro.length >= 5 && gyro.length <= 6);
+  assert.ok(accel.every((sample) => sample.tag === FIFOTag.ACCEL_NC));
+  assert.ok(gyro.every((sample) => sample.tag === FIFOTag.GYRO_NC));
+
+  // The tag counter advances once per batch time slot
+  const first = samples[0].tagCount;
+  assert.ok(samples.some((sample) => sample.tagCount !== first));
+  assert.equal(sensor.getFIFOLevel(), 0);
+});
+
+test('FIFO mode stops when full and reports overrun in stream mode', () => {
+  const emulator = new LSM6DSREmulator({ realTime: false });
+  const sensor = createSensor(emulator);
+  sensor.enableAccel();
+  sensor.setAccelODR(AccelODR.Hz_833);
+  sensor.configureFIFO({ accelBatchRate: FIFOAccelBDR.Hz_833, mode: FIFOMode.FIFO });
+  emulator.advance(1000);
+
+  let status = sensor.getFIFOStatus();
+  assert.equal(status.full, true);
+  assert.equal(status.overrun, false);
+  const level = status.level;
+  emulator.advance(100);
+  assert.equal(sensor.getFIFOLevel(), level);
+
+  sensor.setFIFOMode(FIFOMode.BYPASS);
+  assert.equal(sensor.getFIFOLevel(), 0);
+  sensor.setFIFOMode(FIFOMode.STREAM);
+  emulator.advance(1000);
+
+  status = sensor.getFIFOStatus();
+  assert.equal(status.overrun, true);
+  assert.equal(status.overrunLatched, true);
+  assert.equal(sensor.getFIFOStatus().overrunLatched, false); // cleared on read
+});
+
+test('FIFO watermark raises an interrupt and event', () => {
+  const emulator = new LSM6DSREmulator({ realTime: false });
+  const sensor = createSensor(emulator);
+  const line = new MockGPIO();
+  emulator.connectInterrupt(InterruptPin.INT1, line);
+
+  sensor.enableAccel();
+  sensor.setInterruptRouting(InterruptPin.INT1, { fifoThreshold: true });
+  sensor.attachInterrupt(InterruptPin.INT1, line);
+  const levels: number[] = [];
+  sensor.on('fifoWatermark', (status) => levels.push(status.level));
+
+  sensor.configureFIFO({ accelBatchRate: FIFOAccelBDR.Hz_104, watermark: 8, mode: FIFOMode.STREAM });
+  emulator.advance(50);
+  assert.equal(line.read(), 0);
+  emulator.advance(50);
+  assert.equal(line.read(), 1);
+  assert.equal(levels.length, 1);
+  assert.equal(levels[0], 8);
+});
+
+test('free-fall and wake-up are reported in the interrupt sources', () => {
+  const emulator = new LSM6DSREmulator({ realTime: false });
+  const sensor = createSensor(emulator);
+  sensor.enableAccel();
+  sensor.setInterruptLatched(true);
+  sensor.configureFreeFall({ threshold: FreeFallThreshold.MG_312, durationMs: 30 });
+  emulator.advance(100);
+  assert.equal(sensor.getInterruptSources().freeFall, false);
+
+  emulator.setMotionProfile({ type: 'constant', accel: { x: 0, y: 0, z: 0 } });
+  emulator.advance(100);
+  assert.equal(sensor.getInterruptSources().freeFall, true);
+
+  sensor.disableFreeFall();
+  sensor.configureWakeUp({ thresholdMg: 250 });
+  emulator.setMotionProfile({ type: 'constant' });
+  emulator.advance(100);
+  const sources = sensor.getInterruptSources();
+  assert.equal(sources.wakeUp, true);
+  assert.equal(sources.freeFall, false);
+});
+
+test('routed events drive the interrupt line and are emitted', () => {
+  const emulator = new LSM6DSREmulator({ realTime: false });
+  const sensor = createSensor(emulator);
+  const line = new MockGPIO();
+  emulator.connectInterrupt(InterruptPin.INT2, line);
+
+  sensor.enableAccel();
+  sensor.configureTap({ threshold: 0.5 });
+  sensor.configureFreeFall({ threshold: FreeFallThreshold.MG_312, durationMs: 30 });
+  sensor.setInterruptLatched(true);
+  sensor.setInterruptRouting(InterruptPin.INT2, { singleTap: true, freeFall: true });
+  sensor.attachInterrupt(InterruptPin.INT2, line);
+
+  const taps: TapEvent[] = [];
+  const falls: FreeFallEvent[] = [];
+  sensor.on('tap', (event) => taps.push(event));
+  sensor.on('freeFall', (event) => falls.push(event));
+
+  assert.equal(emulator.triggerTap('x', -1), true);
+  emulator.advance(10);
+  assert.deepEqual(taps, [{ type: 'single', axis: 'x', sign: -1 }]);
+  assert.equal(line.read(), 0); // latched source cleared by the handler
+
+  emulator.setMotionProfile({ type: 'constant', accel: { x: 0, y: 0, z: 0 } });
+  emulator.advance(100);
+  assert.ok(falls.length > 0);
+  assert.equal(line.read(), 0);
+
+  // Sources that are not routed leave the line alone
+  sensor.disableTap();
+  assert.equal(emulator.triggerTap('x'), false);
+});
+
+test('an edge raised during an operation is handled once it finishes', () => {
+  const emulator = new LSM6DSREmulator({ realTime: false });
+  const sensor = createSensor(emulator);
+  const line = new MockGPIO();
+  sensor.enableAccel();
+  sensor.configureTap({ threshold: 0.5 });
+  sensor.setInterruptLatched(true);
+  sensor.setInterruptRouting(InterruptPin.INT1, { singleTap: true });
+  sensor.attachInterrupt(InterruptPin.INT1, line);
+  assert.equal(emulator.triggerTap('y', -1), true);
+
+  // Raise the line right after the driver switches to the embedded page
+  const writeByte = emulator.writeByte.bind(emulator);
+  emulator.writeByte = (register, value) => {
+    writeByte(register, value);
+    if (register === Registers.FUNC_CFG_ACCESS && value !== 0) line.setValue(1);
+  };
+  const pages: number[] = [];
+  const taps: TapEvent[] = [];
+  sensor.on('tap', (event) => {
+    pages.push(emulator.getRegister(Registers.FUNC_CFG_ACCESS));
+    taps.push(event);
+  });
+
+  assert.equal(sensor.readStepCount(), 0);
+  assert.deepEqual(taps, [{ type: 'single', axis: 'y', sign: -1 }]);
+  assert.deepEqual(pages, [0]); // TAP_SRC was read from the main page
+});
+
+test('interrupt errors without an error listener are reported as warnings', async () => {
+  const emulator = new LSM6DSREmulator({ realTime: false });
+  const sensor = createSensor(emulator);
+  const line = new MockGPIO();
+  sensor.setInterruptRouting(InterruptPin.INT1, { singleTap: true });
+  sensor.attachInterrupt(InterruptPin.INT1, line);
+
+  const readByte = emulator.readByte.bind(emulator);
+  emulator.readByte = (register) => {
+    if (register === Registers.TAP_SRC) throw new Error('TAP_SRC read failed');
+    return readByte(register);
+  };
+
+  const warning = once(process, 'warning');
+  assert.doesNotThrow(() => line.setValue(1));
+  const [reported] = await warning;
+  assert.match(reported.message, /TAP_SRC read failed/);
+});
+
+test('4D orientation can be switched back to 6D', () => {
+  const emulator = new LSM6DSREmulator({ realTime: false });
+  const sensor = createSensor(emulator);
+  sensor.configureOrientation({ threshold: SixDThreshold.DEG_60, fourD: true });
+  assert.equal(emulator.getRegister(Registers.TAP_THS_6D) & 0x80, 0x80);
+
+  sensor.configureOrientation({ threshold: SixDThreshold.DEG_60 });
+  assert.equal(emulator.getRegister(Registers.TAP_THS_6D) & 0x80, 0);
+});
+
+test('a failed offset calibration keeps the previous offset applied', () => {
+  const emulator = new LSM6DSREmulator({ realTime: false });
+  const sensor = createSensor(emulator);
+  const offset = sensor.setAccelOffset({ x: 20, y: -30, z: 10 });
+
+  // Accelerometer off: no data arrives and sampling times out
+  assert.throws(() => sensor.calibrateAccelOffset({ samples: 5 }), /Timed out waiting for sensor data/);
+  assert.deepEqual(sensor.getAccelOffset(), offset);
+});
@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AHRS, FusionAlgorithm, IMUData } from '../src';
+
+const ALGORITHMS: FusionAlgorithm[] = ['madgwick', 'mahony'];
+const DEG = Math.PI / 180;
+
+// Accelerometer reading (mg) of a device at rest with the given roll and pitch (degrees)
+function gravity(roll: number, pitch: number): IMUData['accel'] {
+  return {
+    x: -Math.sin(pitch * DEG) * 1000,
+    y: Math.sin(roll * DEG) * Math.cos(pitch * DEG) * 1000,
+    z: Math.cos(roll * DEG) * Math.cos(pitch * DEG) * 1000,
+  };
+}
+
+for (const algorithm of ALGORITHMS) {
+  test(`${algorithm} converges to the roll and pitch of a static tilt`, () => {
+    const ahrs = new AHRS({ algorithm, sampleRate: 100 });
+    ahrs.update({ accel: gravity(0, 0), gyro: { x: 0, y: 0, z: 0 } }); // Starts level
+
+    const sample: IMUData = { accel: gravity(20, -35), gyro: { x: 0, y: 0, z: 0 } };
+    let estimate = ahrs.update(sample);
+    assert.ok(Math.abs(estimate.euler.pitch + 35) > 10); // Still far from the tilt after one step
+
+    for (let i = 0; i < 3000; i++) {
+      estimate = ahrs.update(sample);
+    }
+    assert.ok(Math.abs(estimate.euler.roll - 20) < 0.5, `roll ${estimate.euler.roll}`);
+    assert.ok(Math.abs(estimate.euler.pitch + 35) < 0.5, `pitch ${estimate.euler.pitch}`);
+    assert.ok(Math.hypot(estimate.linearAccel.x, estimate.linearAccel.y, estimate.linearAccel.z) < 10);
+  });
+
+  test(`${algorithm} integrates a constant yaw rate`, () => {
+    const ahrs = new AHRS({ algorithm });
+    const sample: IMUData = { accel: gravity(0, 0), gyro: { x: 0, y: 0, z: 10000 } }; // 10 dps
+    ahrs.update(sample); // Initializes the attitude, no integration
+
+    let estimate = ahrs.getEstimate();
+    for (let i = 0; i < 300; i++) {
+      estimate = ahrs.update(sample, null, 0.01);
+    }
+    assert.ok(Math.abs(estimate.euler.yaw - 30) < 0.1, `yaw ${estimate.euler.yaw}`);
+    assert.ok(Math.abs(estimate.euler.roll) < 0.1 && Math.abs(estimate.euler.pitch) < 0.1);
+  });
+}
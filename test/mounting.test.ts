@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MOUNTING_ORIENTATIONS, mountingMatrix, Matrix3 } from '../src';
+import { toDeviceFrame, toSensorFrame } from '../src/mounting';
+
+function determinant(m: Matrix3): number {
+  return (
+    m[0][0] * (m[1][1] * m[2][2] - m[1][2] * m[2][1]) -
+    m[0][1] * (m[1][0] * m[2][2] - m[1][2] * m[2][0]) +
+    m[0][2] * (m[1][0] * m[2][1] - m[1][1] * m[2][0])
+  );
+}
+
+test('every preset is a proper rotation', () => {
+  assert.equal(MOUNTING_ORIENTATIONS.length, 24);
+  for (const preset of MOUNTING_ORIENTATIONS) {
+    const m = mountingMatrix(preset);
+    for (let i = 0; i < 3; i++) {
+      for (let j = 0; j < 3; j++) {
+        const dot = m[i][0] * m[j][0] + m[i][1] * m[j][1] + m[i][2] * m[j][2];
+        assert.equal(dot, i === j ? 1 : 0, `${preset} rows ${i} and ${j}`);
+      }
+    }
+    assert.equal(determinant(m), 1, preset);
+  }
+});
+
+test('presets are pairwise distinct', () => {
+  const matrices = new Set(MOUNTING_ORIENTATIONS.map((preset) => JSON.stringify(mountingMatrix(preset))));
+  assert.equal(matrices.size, MOUNTING_ORIENTATIONS.length);
+});
+
+test('device and sensor frame rotations invert each other', () => {
+  const v = { x: 0.3, y: -1.2, z: 2.5 };
+  for (const preset of MOUNTING_ORIENTATIONS) {
+    const m = mountingMatrix(preset);
+    assert.deepEqual(toDeviceFrame(m, toSensorFrame(m, v)), v, preset);
+    assert.deepEqual(toSensorFrame(m, toDeviceFrame(m, v)), v, preset);
+  }
+
+  // Presets name the sensor axis along each device axis
+  assert.deepEqual(toDeviceFrame(mountingMatrix('-Y+X+Z'), { x: 1, y: 2, z: 3 }), { x: -2, y: 1, z: 3 });
+});
+
+test('mirror images are rejected', () => {
+  assert.throws(() => mountingMatrix([[1, 0, 0], [0, 1, 0], [0, 0, -1]]), /reflection/);
+  assert.throws(() => mountingMatrix([[1, 0, 0], [0, 1, 0], [0, 1, 0]]), /not orthonormal/);
+});
@@ -0,0 +1,117 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  LSM6DSR,
+  LSM6DSRAsync,
+  LSM6DSREmulator,
+  AsyncI2CAdapter,
+  RecordingI2CWrapper,
+  AsyncRecordingI2CWrapper,
+  ReplayI2CWrapper,
+  serializeBusRecording,
+  parseBusRecording,
+  AccelODR,
+  FIFOMode,
+  FIFOAccelBDR,
+  RegisterInterface,
+  AsyncRegisterInterface,
+} from '../src';
+
+// Session exercising single register, burst and FIFO reads
+function runSession(bus: RegisterInterface, advance: (ms: number) => void = () => {}) {
+  const sensor = LSM6DSR.withI2C(bus);
+  sensor.begin();
+  sensor.enableAccel();
+  sensor.enableGyro();
+  sensor.configureFIFO({ accelBatchRate: FIFOAccelBDR.Hz_104, mode: FIFOMode.STREAM });
+  advance(50);
+  const result = {
+    accel: sensor.readAccel(),
+    gyro: sensor.readGyro(),
+    temperature: sensor.readTemperature(),
+    fifo: sensor.readFIFO(),
+  };
+  sensor.close();
+  return result;
+}
+
+function recordSession(): { text: string; result: ReturnType<typeof runSession> } {
+  const emulator = new LSM6DSREmulator({
+    realTime: false,
+    profile: { type: 'sinusoid', frequency: 5, accelAmplitude: { x: 300, y: 0, z: 0 }, gyroAmplitude: { x: 0, y: 0, z: 20000 } },
+  });
+  const recorder = new RecordingI2CWrapper(emulator);
+  const result = runSession(recorder, (ms) => emulator.advance(ms));
+  return { text: recorder.serialize(), result };
+}
+
+test('a recorded session replays to the same readings', () => {
+  const { text, result } = recordSession();
+  assert.ok(result.fifo.length > 0);
+
+  const replay = new ReplayI2CWrapper(text);
+  assert.deepEqual(runSession(replay), result);
+  replay.assertComplete();
+});
+
+test('serialized transactions parse back unchanged', () => {
+  const { text } = recordSession();
+  const transactions = parseBusRecording(text);
+  assert.ok(transactions.some((t) => t.operation === 'readBlock' && t.data.length === 7)); // FIFO burst
+  assert.equal(serializeBusRecording(transactions), text);
+});
+
+test('replay throws on a write that differs from the recording', () => {
+  const { text } = recordSession();
+  const sensor = LSM6DSR.withI2C(new ReplayI2CWrapper(text), { accelODR: AccelODR.Hz_208 });
+  sensor.begin();
+  assert.throws(() => sensor.enableAccel(), /Replay mismatch at transaction \d+: expected writeByte 0x10 = 40, got writeByte 0x10 = 50/);
+});
+
+test('replay throws on transactions issued out of order', () => {
+  const { text } = recordSession();
+  const replay = new ReplayI2CWrapper(text);
+  const sensor = LSM6DSR.withI2C(replay);
+  sensor.begin();
+  assert.throws(() => sensor.enableGyro(), /Replay mismatch at transaction \d+: expected writeByte 0x10 = 40, got writeByte 0x11/);
+});
+
+test('replay reports transactions the driver did not issue', () => {
+  const { text } = recordSession();
+  const replay = new ReplayI2CWrapper(text);
+  LSM6DSR.withI2C(replay).begin();
+  assert.ok(replay.getRemaining() > 0);
+  assert.throws(() => replay.assertComplete(), /Replay incomplete/);
+});
+
+test('an async session replays through AsyncI2CAdapter', async () => {
+  const session = async (bus: AsyncRegisterInterface) => {
+    const sensor = LSM6DSRAsync.withI2C(bus);
+    await sensor.begin();
+    await sensor.enableAccel();
+    const accel = await sensor.readAccel();
+    await sensor.close();
+    return accel;
+  };
+
+  const recorder = new AsyncRecordingI2CWrapper(new AsyncI2CAdapter(new LSM6DSREmulator({ realTime: false })));
+  const accel = await session(recorder);
+
+  const replay = new ReplayI2CWrapper(recorder.serialize());
+  assert.deepEqual(await session(new AsyncI2CAdapter(replay)), accel);
+  replay.assertComplete();
+});
+
+test('bus errors are recorded and thrown again on replay', () => {
+  const emulator = new LSM6DSREmulator({ realTime: false });
+  emulator.readByte = () => {
+    throw new Error('Remote I/O error');
+  };
+  const recorder = new RecordingI2CWrapper(emulator);
+  assert.throws(() => LSM6DSR.withI2C(recorder).begin(), /Remote I\/O error/);
+  assert.match(recorder.serialize(), /rb 0f 00 ! Remote I\/O error/);
+
+  const replay = new ReplayI2CWrapper(recorder.serialize());
+  assert.throws(() => LSM6DSR.withI2C(replay).begin(), /Remote I\/O error/);
+  replay.assertComplete();
+});
@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LSM6DSR, LSM6DSREmulator, Registers, AccelODR, GyroODR, SelfTestSensorResult } from '../src';
+
+function createSensor(emulator: LSM6DSREmulator): LSM6DSR {
+  const sensor = LSM6DSR.withI2C(emulator, { accelODR: AccelODR.Hz_104, gyroODR: GyroODR.Hz_833 });
+  sensor.begin();
+  sensor.enableAccel();
+  sensor.enableGyro();
+  return sensor;
+}
+
+function controlRegisters(emulator: LSM6DSREmulator): number[] {
+  return Array.from({ length: 10 }, (_, i) => emulator.getRegister(Registers.CTRL1_XL + i));
+}
+
+function assertDeflection(result: SelfTestSensorResult, expected: number) {
+  for (const axis of ['x', 'y', 'z'] as const) {
+    assert.ok(Math.abs(result[axis].positive - expected) < 0.05 * expected, `${axis} ${result[axis].positive}`);
+    assert.ok(Math.abs(result[axis].negative - expected) < 0.05 * expected, `${axis} ${result[axis].negative}`);
+    assert.ok(result[axis].pass, axis);
+  }
+}
+
+test('self-test passes and restores the configuration', () => {
+  const emulator = new LSM6DSREmulator({ profile: { type: 'constant', accel: { x: 0, y: 0, z: 1000 } } });
+  const sensor = createSensor(emulator);
+  const saved = controlRegisters(emulator);
+
+  const report = sensor.selfTest();
+  assert.equal(report.pass, true);
+  assertDeflection(report.accel!, 500); // Emulated deflection: 500 mg, 300 dps
+  assertDeflection(report.gyro!, 300000);
+  assert.deepEqual(controlRegisters(emulator), saved);
+});
+
+test('self-test fails when the output does not respond', () => {
+  const emulator = new LSM6DSREmulator({ profile: { type: 'constant', accel: { x: 0, y: 0, z: 1000 } } });
+  const sensor = createSensor(emulator);
+  const saved = controlRegisters(emulator);
+
+  // Accelerometer self-test requests (ST_XL) never reach the device
+  const writeByte = emulator.writeByte.bind(emulator);
+  emulator.writeByte = (register, value) => writeByte(register, register === Registers.CTRL5_C ? value & ~0x03 : value);
+
+  const report = sensor.selfTest({ gyro: false });
+  assert.equal(report.pass, false);
+  assert.equal(report.accel!.pass, false);
+  assert.ok(report.accel!.x.positive < report.accel!.min, `${report.accel!.x.positive}`);
+  assert.equal(report.gyro, undefined);
+  assert.deepEqual(controlRegisters(emulator), saved);
+});
@@ -0,0 +1,81 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  LSM6DSR,
+  LSM6DSRAsync,
+  SPIWrapper,
+  AsyncSPIWrapper,
+  MockSPIDevice,
+  Registers,
+  SPI_READ_BIT,
+  SPITransfer,
+} from '../src';
+
+const I2C_DISABLE = 0x04;
+
+// Records the address byte of every transfer
+class RecordingSPIDevice extends MockSPIDevice {
+  addresses: number[] = [];
+
+  transferSync(message: SPITransfer[]): this {
+    for (const transfer of message) {
+      this.addresses.push(transfer.sendBuffer![0]);
+    }
+    return super.transferSync(message);
+  }
+}
+
+function createSensor(device: MockSPIDevice): LSM6DSR {
+  return LSM6DSR.withBus(SPIWrapper.withDevice(device), { transport: 'spi' });
+}
+
+test('reads set the read bit and writes leave it clear', () => {
+  const device = new RecordingSPIDevice();
+  const sensor = createSensor(device);
+
+  assert.equal(sensor.readWhoAmI(), 0x6b);
+  assert.deepEqual(device.addresses, [SPI_READ_BIT | Registers.WHO_AM_I]);
+
+  device.addresses = [];
+  sensor.writeRegister(Registers.CTRL1_XL, 0x40);
+  assert.deepEqual(device.addresses, [Registers.CTRL1_XL]);
+  assert.equal(device.getRegister(Registers.CTRL1_XL), 0x40);
+});
+
+test('multi-byte reads use IF_INC auto-increment', () => {
+  const device = new RecordingSPIDevice();
+  const sensor = createSensor(device);
+  sensor.begin();
+  assert.ok(device.getRegister(Registers.CTRL3_C) & 0x04, 'IF_INC enabled');
+
+  [0x10, 0x27, 0x00, 0xf0, 0x30, 0x0c].forEach((value, i) => device.setRegister(Registers.OUTX_L_A + i, value));
+  device.addresses = [];
+  const data = sensor.readRegisters(Registers.OUTX_L_A, 6);
+  assert.deepEqual([...data], [0x10, 0x27, 0x00, 0xf0, 0x30, 0x0c]);
+  assert.deepEqual(device.addresses, [SPI_READ_BIT | Registers.OUTX_L_A]); // One transfer
+});
+
+test('I2C is disabled by begin() and again after reset()', () => {
+  const device = new MockSPIDevice();
+  const sensor = createSensor(device);
+  assert.equal(device.getRegister(Registers.CTRL4_C) & I2C_DISABLE, 0);
+
+  assert.equal(sensor.begin(), true);
+  assert.ok(device.getRegister(Registers.CTRL4_C) & I2C_DISABLE);
+
+  device.setRegister(Registers.CTRL1_XL, 0x40);
+  sensor.reset();
+  assert.equal(device.getRegister(Registers.CTRL1_XL), 0); // The reset took effect
+  assert.ok(device.getRegister(Registers.CTRL4_C) & I2C_DISABLE);
+});
+
+test('the async driver disables I2C over SPI', async () => {
+  const device = new MockSPIDevice();
+  const sensor = LSM6DSRAsync.withBus(AsyncSPIWrapper.withDevice(device), { transport: 'spi' });
+
+  assert.equal(await sensor.begin(), true);
+  assert.ok(device.getRegister(Registers.CTRL4_C) & I2C_DISABLE);
+
+  await sensor.reset();
+  assert.ok(device.getRegister(Registers.CTRL4_C) & I2C_DISABLE);
+});
@@ -0,0 +1,95 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { once } from 'node:events';
+import {
+  LSM6DSR,
+  LSM6DSREmulator,
+  AccelODR,
+  GyroODR,
+  FIFOMode,
+  FIFOAccelBDR,
+  FIFOGyroBDR,
+  IMUData,
+} from '../src';
+
+function createSensor(emulator: LSM6DSREmulator): LSM6DSR {
+  const sensor = LSM6DSR.withI2C(emulator, { accelODR: AccelODR.Hz_833, gyroODR: GyroODR.Hz_833 });
+  sensor.begin();
+  sensor.enableAccel();
+  sensor.enableGyro();
+  return sensor;
+}
+
+function createEmulator(): LSM6DSREmulator {
+  return new LSM6DSREmulator({
+    profile: { type: 'constant', accel: { x: 0, y: 500, z: 866 }, gyro: { x: 0, y: 0, z: 7000 } },
+  });
+}
+
+function assertSample(sample: IMUData) {
+  assert.ok(Math.abs(sample.accel.y - 500) < 1 && Math.abs(sample.accel.z - 866) < 1, JSON.stringify(sample.accel));
+  assert.ok(Math.abs(sample.gyro.z - 7000) < 100, JSON.stringify(sample.gyro));
+}
+
+async function take(samples: AsyncIterable<IMUData>, count: number): Promise<IMUData[]> {
+  const taken: IMUData[] = [];
+  for await (const sample of samples) {
+    taken.push(sample);
+    if (taken.length === count) break;
+  }
+  return taken;
+}
+
+test('the data-ready stream yields sensor samples', async () => {
+  const sensor = createSensor(createEmulator());
+  const samples = await take(sensor.stream({ includeTemp: true }), 5);
+  assert.equal(samples.length, 5);
+  samples.forEach(assertSample);
+});
+
+test('the FIFO stream pairs batched samples', async () => {
+  const sensor = createSensor(createEmulator());
+  sensor.configureFIFO({ accelBatchRate: FIFOAccelBDR.Hz_833, gyroBatchRate: FIFOGyroBDR.Hz_833, mode: FIFOMode.STREAM });
+  const samples = await take(sensor.stream({ source: 'fifo', pollInterval: 5 }), 20);
+  assert.equal(samples.length, 20);
+  samples.forEach(assertSample);
+});
+
+test('the FIFO stream refuses a FIFO in bypass mode', async () => {
+  const sensor = createSensor(createEmulator());
+  await assert.rejects(take(sensor.stream({ source: 'fifo' }), 1), /FIFO is in BYPASS mode/);
+});
+
+test('bus errors are thrown from the iterator', async () => {
+  for (const source of ['dataReady', 'fifo'] as const) {
+    const emulator = createEmulator();
+    const sensor = createSensor(emulator);
+    sensor.configureFIFO({ accelBatchRate: FIFOAccelBDR.Hz_833, gyroBatchRate: FIFOGyroBDR.Hz_833, mode: FIFOMode.STREAM });
+
+    const stream = sensor.stream({ source, pollInterval: 5 });
+    assertSample((await stream.next()).value as IMUData);
+
+    emulator.readByte = () => {
+      throw new Error('Remote I/O error');
+    };
+    emulator.readBlock = () => {
+      throw new Error('Remote I/O error');
+    };
+    await assert.rejects(take(stream, 100), /Remote I\/O error/, source);
+  }
+});
+
+test('bus errors are emitted by the Readable', async () => {
+  const emulator = createEmulator();
+  const readable = createSensor(emulator).createReadStream();
+  const [first] = await once(readable, 'data');
+  assertSample(first);
+
+  readable.pause();
+  emulator.readByte = () => {
+    throw new Error('Remote I/O error');
+  };
+  readable.resume();
+  const [error] = await once(readable, 'error');
+  assert.match(error.message, /Remote I\/O error/);
+});
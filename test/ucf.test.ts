@@ -0,0 +1,100 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LSM6DSR, LSM6DSREmulator, Registers, EmbeddedRegisters, EmbeddedAdvancedRegisters, parseUCF } from '../src';
+import { FUNC_CFG_EMBEDDED } from '../src/helpers';
+
+// One-state FSM program at 104 Hz routed to INT1, as exported by ST tools
+const FSM_UCF = `--LSM6DSR
+--Program: single state
+Ac 10 00
+Ac 11 00
+Ac 01 80
+Ac 05 01
+Ac 5F 4B
+Ac 46 01
+Ac 17 40
+Ac 02 11
+Ac 08 7A
+Ac 09 00
+Ac 09 00
+Ac 09 01
+Ac 09 00
+Ac 09 00
+Ac 09 04
+Ac 02 41
+Ac 08 00
+Ac 09 52
+Ac 09 00
+Ac 09 1C
+Ac 09 00
+Ac 17 00
+Ac 67 01
+Ac 01 00
+; Main page
+Ac 5E 02
+WAIT 5
+Ac 10 40
+`;
+
+function createSensor(emulator: LSM6DSREmulator): LSM6DSR {
+  const sensor = LSM6DSR.withI2C(emulator);
+  sensor.begin();
+  return sensor;
+}
+
+test('UCF scripts parse into writes and waits', () => {
+  const commands = parseUCF(FSM_UCF);
+  assert.equal(commands.length, 27);
+  assert.deepEqual(commands[0], { type: 'write', register: 0x10, value: 0x00 });
+  assert.deepEqual(commands[25], { type: 'wait', ms: 5 });
+  assert.deepEqual(commands[26], { type: 'write', register: 0x10, value: 0x40 });
+
+  assert.throws(() => parseUCF('--LSM6DSR\nAc 10'), /Invalid UCF line 2: "Ac 10"/);
+  assert.throws(() => parseUCF('Ac 10 100'), /Invalid UCF line 1/);
+  assert.throws(() => parseUCF('WAIT -1'), /Invalid UCF line 1/);
+});
+
+test('loadUCF replays the script and returns to the main page', () => {
+  const emulator = new LSM6DSREmulator({ realTime: false });
+  const sensor = createSensor(emulator);
+  const writes: [number, number][] = [];
+  const writeByte = emulator.writeByte.bind(emulator);
+  emulator.writeByte = (register, value) => {
+    writes.push([register, value]);
+    writeByte(register, value);
+  };
+
+  sensor.loadUCF(FSM_UCF);
+  const scripted = parseUCF(FSM_UCF).flatMap((command) =>
+    command.type === 'write' ? [[command.register, command.value]] : []
+  );
+  assert.deepEqual(writes, [...scripted, [Registers.FUNC_CFG_ACCESS, 0]]);
+
+  assert.equal(emulator.getAdvancedRegister(EmbeddedAdvancedRegisters.FSM_PROGRAMS), 1);
+  assert.equal(emulator.getAdvancedRegister(EmbeddedAdvancedRegisters.FSM_START_ADD_H), 0x04);
+  assert.deepEqual([0, 1, 2, 3].map((i) => emulator.getAdvancedRegister(0x400 + i)), [0x52, 0x00, 0x1c, 0x00]);
+  assert.equal(emulator.getRegister(EmbeddedRegisters.EMB_FUNC_ODR_CFG_B, FUNC_CFG_EMBEDDED), 0x4b);
+  assert.equal(emulator.getRegister(Registers.MD1_CFG), 0x02);
+  assert.equal(emulator.getRegister(Registers.CTRL1_XL), 0x40);
+  assert.equal(emulator.getRegister(Registers.FUNC_CFG_ACCESS), 0);
+});
+
+test('verifyUCF reports registers that differ from the script', () => {
+  const emulator = new LSM6DSREmulator({ realTime: false });
+  const sensor = createSensor(emulator);
+  sensor.loadUCF(FSM_UCF);
+  assert.deepEqual(sensor.verifyUCF(FSM_UCF), []);
+
+  emulator.setRegister(Registers.CTRL1_XL, 0x00);
+  emulator.setRegister(EmbeddedRegisters.EMB_FUNC_ODR_CFG_B, 0x43, FUNC_CFG_EMBEDDED);
+  assert.deepEqual(sensor.verifyUCF(FSM_UCF), [
+    { page: 'main', address: Registers.CTRL1_XL, expected: 0x40, actual: 0x00 },
+    { page: 'embedded', address: EmbeddedRegisters.EMB_FUNC_ODR_CFG_B, expected: 0x4b, actual: 0x43 },
+  ]);
+  assert.equal(emulator.getRegister(Registers.FUNC_CFG_ACCESS), 0);
+
+  // A device that never received the script misses the advanced page contents too
+  const fresh = createSensor(new LSM6DSREmulator({ realTime: false }));
+  const pages = new Set(fresh.verifyUCF(FSM_UCF).map((mismatch) => mismatch.page));
+  assert.deepEqual([...pages].sort(), ['advanced', 'embedded', 'main']);
+});
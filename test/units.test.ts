@@ -0,0 +1,102 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  LSM6DSR,
+  LSM6DSREmulator,
+  AccelODR,
+  GyroODR,
+  STANDARD_GRAVITY,
+  convertAccel,
+  convertGyro,
+  convertTemperature,
+  AccelUnit,
+  GyroUnit,
+  TemperatureUnit,
+  Vector3D,
+} from '../src';
+
+const ACCEL_UNITS: AccelUnit[] = ['mg', 'g', 'm/s2'];
+const GYRO_UNITS: GyroUnit[] = ['mdps', 'dps', 'rad/s'];
+const TEMPERATURE_UNITS: TemperatureUnit[] = ['C', 'K'];
+
+// 1 g, 1 dps and 25 °C in every unit
+const ONE_G: Record<AccelUnit, number> = { mg: 1000, g: 1, 'm/s2': STANDARD_GRAVITY };
+const ONE_DPS: Record<GyroUnit, number> = { mdps: 1000, dps: 1, 'rad/s': Math.PI / 180 };
+const ROOM: Record<TemperatureUnit, number> = { C: 25, K: 298.15 };
+
+function assertClose(actual: number, expected: number, tolerance = 1e-9 * Math.max(1, Math.abs(expected))) {
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${actual} != ${expected}`);
+}
+
+function scaled(v: number): Vector3D {
+  return { x: v, y: -2 * v, z: 0.5 * v };
+}
+
+test('known values convert between every pair of units', () => {
+  for (const from of ACCEL_UNITS) {
+    for (const to of ACCEL_UNITS) {
+      const converted = convertAccel(scaled(ONE_G[from]), to, from);
+      assertClose(converted.x, ONE_G[to]);
+      assertClose(converted.y, -2 * ONE_G[to]);
+    }
+  }
+  for (const from of GYRO_UNITS) {
+    for (const to of GYRO_UNITS) {
+      assertClose(convertGyro(scaled(ONE_DPS[from]), to, from).z, 0.5 * ONE_DPS[to]);
+    }
+  }
+  for (const from of TEMPERATURE_UNITS) {
+    for (const to of TEMPERATURE_UNITS) {
+      assertClose(convertTemperature(ROOM[from], to, from), ROOM[to]);
+    }
+  }
+});
+
+test('conversions round-trip', () => {
+  const value = scaled(123.456);
+  for (const a of ACCEL_UNITS) {
+    for (const b of ACCEL_UNITS) {
+      const back = convertAccel(convertAccel(value, b, a), a, b);
+      assertClose(back.x, value.x);
+      assertClose(back.y, value.y);
+    }
+  }
+  for (const a of GYRO_UNITS) {
+    for (const b of GYRO_UNITS) {
+      assertClose(convertGyro(convertGyro(value, b, a), a, b).z, value.z);
+    }
+  }
+  for (const a of TEMPERATURE_UNITS) {
+    for (const b of TEMPERATURE_UNITS) {
+      assertClose(convertTemperature(convertTemperature(-40, b, a), a, b), -40);
+    }
+  }
+});
+
+test('every output unit combination applies to driver readings', () => {
+  for (const accel of ACCEL_UNITS) {
+    for (const gyro of GYRO_UNITS) {
+      for (const temperature of TEMPERATURE_UNITS) {
+        const emulator = new LSM6DSREmulator({
+          realTime: false,
+          profile: { type: 'constant', accel: { x: 0, y: 0, z: 1000 }, gyro: { x: 1000, y: 0, z: 0 }, temperature: 25 },
+        });
+        const sensor = LSM6DSR.withI2C(emulator, {
+          accelODR: AccelODR.Hz_104,
+          gyroODR: GyroODR.Hz_104,
+          units: { accel, gyro, temperature },
+        });
+        sensor.begin();
+        sensor.enableAccel();
+        sensor.enableGyro();
+        emulator.advance(50);
+
+        const data = sensor.readIMU(true);
+        const label = `${accel}/${gyro}/${temperature}`;
+        assert.ok(Math.abs(data.accel.z - ONE_G[accel]) < 0.001 * ONE_G[accel], `${label} accel ${data.accel.z}`);
+        assert.ok(Math.abs(data.gyro.x - ONE_DPS[gyro]) < 0.1 * ONE_DPS[gyro], `${label} gyro ${data.gyro.x}`);
+        assert.ok(Math.abs(data.temperature! - ROOM[temperature]) < 0.01, `${label} temperature ${data.temperature}`);
+      }
+    }
+  }
+});